@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "CommonAreaDistribution" AS ENUM ('EQUAL', 'CONSUMPTION', 'ALIQUOT', 'OCCUPANTS');
+
+-- AlterTable
+ALTER TABLE "condominiums" ADD COLUMN "commonAreaDistribution" "CommonAreaDistribution" NOT NULL DEFAULT 'EQUAL';
+
+-- AlterTable
+ALTER TABLE "units"
+  ADD COLUMN "aliquot" DOUBLE PRECISION,
+  ADD COLUMN "occupants" INTEGER;
+
+-- AlterTable
+ALTER TABLE "period_calculations" ADD COLUMN "distributionStrategy" "CommonAreaDistribution" NOT NULL DEFAULT 'EQUAL';
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "rate_settings" (
+    "id" TEXT NOT NULL,
+    "condominiumId" TEXT NOT NULL,
+    "periodId" TEXT,
+    "tiers" JSONB NOT NULL,
+    "commonAreaRate" DOUBLE PRECISION,
+    "fixedCharge" DOUBLE PRECISION,
+    "minimumConsumption" DOUBLE PRECISION,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "effectiveTo" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rate_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rate_settings_condominiumId_effectiveFrom_idx" ON "rate_settings"("condominiumId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "rate_settings" ADD CONSTRAINT "rate_settings_condominiumId_fkey" FOREIGN KEY ("condominiumId") REFERENCES "condominiums"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rate_settings" ADD CONSTRAINT "rate_settings_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "periods"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate the global water rate keys into a rate setting per condominium
+INSERT INTO "rate_settings" ("id", "condominiumId", "tiers", "commonAreaRate", "fixedCharge", "minimumConsumption", "effectiveFrom", "updatedAt")
+SELECT
+    'rate_' || c."id",
+    c."id",
+    COALESCE(
+        (SELECT "value"::jsonb FROM "system_config" WHERE "key" = 'water_tariff_tiers'),
+        jsonb_build_array(jsonb_build_object(
+            'from', 0,
+            'to', NULL,
+            'rate', (SELECT "value"::double precision FROM "system_config" WHERE "key" = 'water_basic_rate')
+        ))
+    ),
+    (SELECT "value"::double precision FROM "system_config" WHERE "key" = 'water_common_area_rate'),
+    (SELECT "value"::double precision FROM "system_config" WHERE "key" = 'water_fixed_charge'),
+    (SELECT "value"::double precision FROM "system_config" WHERE "key" = 'water_minimum_consumption'),
+    c."createdAt",
+    CURRENT_TIMESTAMP
+FROM "condominiums" c
+WHERE EXISTS (
+    SELECT 1 FROM "system_config" WHERE "key" IN ('water_tariff_tiers', 'water_basic_rate')
+);
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ExtraChargeType" AS ENUM ('FIXED', 'PERCENTAGE');
+
+-- CreateTable
+CREATE TABLE "extra_charges" (
+    "id" TEXT NOT NULL,
+    "condominiumId" TEXT NOT NULL,
+    "blockId" TEXT,
+    "unitId" TEXT,
+    "description" TEXT NOT NULL,
+    "type" "ExtraChargeType" NOT NULL DEFAULT 'FIXED',
+    "amount" DOUBLE PRECISION NOT NULL,
+    "isRecurring" BOOLEAN NOT NULL DEFAULT false,
+    "startPeriodId" TEXT NOT NULL,
+    "endPeriodId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "extra_charges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "extra_charges_condominiumId_idx" ON "extra_charges"("condominiumId");
+
+-- AddForeignKey
+ALTER TABLE "extra_charges" ADD CONSTRAINT "extra_charges_condominiumId_fkey" FOREIGN KEY ("condominiumId") REFERENCES "condominiums"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "extra_charges" ADD CONSTRAINT "extra_charges_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "blocks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "extra_charges" ADD CONSTRAINT "extra_charges_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "units"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "extra_charges" ADD CONSTRAINT "extra_charges_startPeriodId_fkey" FOREIGN KEY ("startPeriodId") REFERENCES "periods"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "extra_charges" ADD CONSTRAINT "extra_charges_endPeriodId_fkey" FOREIGN KEY ("endPeriodId") REFERENCES "periods"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "meterBreakdown" JSONB;
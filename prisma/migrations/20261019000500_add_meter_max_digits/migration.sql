@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "meters" ADD COLUMN "maxDigits" INTEGER;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "meters"
+  ADD COLUMN "initialReading" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN "finalReading" DOUBLE PRECISION,
+  ADD COLUMN "replacesMeterId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "meters_replacesMeterId_key" ON "meters"("replacesMeterId");
+
+-- AddForeignKey
+ALTER TABLE "meters" ADD CONSTRAINT "meters_replacesMeterId_fkey" FOREIGN KEY ("replacesMeterId") REFERENCES "meters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
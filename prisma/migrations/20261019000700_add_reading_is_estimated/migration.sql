@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "readings" ADD COLUMN "isEstimated" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "roundingAdjustment" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "plans" ALTER COLUMN "pricePerUnitPEN" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "subscriptions" ALTER COLUMN "monthlyAmount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "annualAmount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "periods" ALTER COLUMN "totalAmount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "rate_settings" ALTER COLUMN "commonAreaRate" SET DATA TYPE DECIMAL(12,4),
+ALTER COLUMN "fixedCharge" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "period_calculations" ALTER COLUMN "costPerCubicMeter" SET DATA TYPE DECIMAL(12,4),
+ALTER COLUMN "totalIndividualAmount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "totalCommonAreasAmount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "unit_calculations" ALTER COLUMN "individualAmount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "commonAreasAmount" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "totalAmount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "extra_charges" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "bills" ALTER COLUMN "individualCost" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "commonAreaCost" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "totalCost" SET DATA TYPE DECIMAL(12,2),
+ALTER COLUMN "roundingAdjustment" SET DATA TYPE DECIMAL(12,4);
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "calculation_versions" (
+    "id" TEXT NOT NULL,
+    "periodId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "inputs" JSONB NOT NULL,
+    "result" JSONB NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "calculation_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calculation_versions_periodId_version_key" ON "calculation_versions"("periodId", "version");
+
+-- AddForeignKey
+ALTER TABLE "calculation_versions" ADD CONSTRAINT "calculation_versions_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "periods"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "calculation_versions" ADD CONSTRAINT "calculation_versions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "periods" ADD COLUMN "utilityType" "MeterType" NOT NULL DEFAULT 'WATER';
+
+-- AlterTable
+ALTER TABLE "rate_settings" ADD COLUMN "utilityType" "MeterType" NOT NULL DEFAULT 'WATER';
+
+-- CreateIndex
+CREATE INDEX "periods_condominiumId_utilityType_status_idx" ON "periods"("condominiumId", "utilityType", "status");
+
+-- DropIndex
+DROP INDEX "rate_settings_condominiumId_effectiveFrom_idx";
+
+-- CreateIndex
+CREATE INDEX "rate_settings_condominiumId_utilityType_effectiveFrom_idx" ON "rate_settings"("condominiumId", "utilityType", "effectiveFrom");
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "ProrationMethod" AS ENUM ('DAYS', 'READING');
+
+-- AlterTable
+ALTER TABLE "condominiums" ADD COLUMN "prorationMethod" "ProrationMethod" NOT NULL DEFAULT 'DAYS';
+
+-- AlterTable: existing assignments are considered occupied since they were created
+ALTER TABLE "unit_residents"
+  ADD COLUMN "startDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  ADD COLUMN "endDate" TIMESTAMP(3),
+  ADD COLUMN "startReading" DOUBLE PRECISION,
+  ADD COLUMN "endReading" DOUBLE PRECISION;
+
+UPDATE "unit_residents" SET "startDate" = "createdAt";
+
+-- CreateTable
+CREATE TABLE "bill_shares" (
+    "id" TEXT NOT NULL,
+    "billId" TEXT NOT NULL,
+    "residentId" TEXT,
+    "residentName" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "method" "ProrationMethod" NOT NULL,
+    "days" DOUBLE PRECISION NOT NULL,
+    "consumption" DOUBLE PRECISION,
+    "share" DOUBLE PRECISION NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bill_shares_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "bill_shares" ADD CONSTRAINT "bill_shares_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_shares" ADD CONSTRAINT "bill_shares_residentId_fkey" FOREIGN KEY ("residentId") REFERENCES "residents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable: common-area meters belong to the condominium (and optionally a block) instead of a unit
+ALTER TABLE "meters"
+  ALTER COLUMN "unitId" DROP NOT NULL,
+  ADD COLUMN "condominiumId" TEXT,
+  ADD COLUMN "blockId" TEXT,
+  ADD COLUMN "name" TEXT;
+
+ALTER TABLE "meters" ADD CONSTRAINT "meters_owner_check" CHECK ("unitId" IS NOT NULL OR "condominiumId" IS NOT NULL);
+
+-- AlterTable
+ALTER TABLE "period_calculations"
+  ADD COLUMN "measuredCommonConsumption" DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN "unexplainedLoss" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "meters_condominiumId_idx" ON "meters"("condominiumId");
+
+-- AddForeignKey
+ALTER TABLE "meters" ADD CONSTRAINT "meters_condominiumId_fkey" FOREIGN KEY ("condominiumId") REFERENCES "condominiums"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "meters" ADD CONSTRAINT "meters_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "blocks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
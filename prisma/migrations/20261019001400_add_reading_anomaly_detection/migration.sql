@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "ReadingAnomalyType" AS ENUM ('NEGATIVE_CONSUMPTION', 'CONSUMPTION_SPIKE', 'CONSUMPTION_DROP', 'BUILDING_OUTLIER');
+
+-- AlterTable
+ALTER TABLE "condominiums"
+  ADD COLUMN "anomalyZScoreThreshold" DOUBLE PRECISION NOT NULL DEFAULT 3,
+  ADD COLUMN "anomalyPercentThreshold" DOUBLE PRECISION NOT NULL DEFAULT 200,
+  ADD COLUMN "anomalyHistoryPeriods" INTEGER NOT NULL DEFAULT 6;
+
+-- AlterTable
+ALTER TABLE "readings"
+  ADD COLUMN "anomalyType" "ReadingAnomalyType",
+  ADD COLUMN "anomalyDetails" JSONB;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ReadingAnomalyType" ADD VALUE 'ABOVE_FORECAST';
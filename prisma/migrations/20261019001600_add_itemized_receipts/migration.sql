@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "ReceiptLineItemType" AS ENUM ('WATER', 'SEWERAGE', 'FIXED_CHARGE', 'TAX', 'ARREARS', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ReceiptDistribution" AS ENUM ('TARIFF', 'CONSUMPTION', 'EQUAL', 'ALIQUOT', 'OCCUPANTS');
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN "receiptCharges" JSONB;
+
+-- CreateTable
+CREATE TABLE "receipts" (
+    "id" TEXT NOT NULL,
+    "periodId" TEXT NOT NULL,
+    "supplier" TEXT,
+    "receiptNumber" TEXT,
+    "issueDate" TIMESTAMP(3),
+    "totalVolume" DOUBLE PRECISION NOT NULL,
+    "photo1" TEXT,
+    "photo2" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "receipt_line_items" (
+    "id" TEXT NOT NULL,
+    "receiptId" TEXT NOT NULL,
+    "type" "ReceiptLineItemType" NOT NULL,
+    "description" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "distribution" "ReceiptDistribution" NOT NULL DEFAULT 'TARIFF',
+
+    CONSTRAINT "receipt_line_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "receipts_periodId_idx" ON "receipts"("periodId");
+
+-- CreateIndex
+CREATE INDEX "receipt_line_items_receiptId_idx" ON "receipt_line_items"("receiptId");
+
+-- AddForeignKey
+ALTER TABLE "receipts" ADD CONSTRAINT "receipts_periodId_fkey" FOREIGN KEY ("periodId") REFERENCES "periods"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "receipt_line_items" ADD CONSTRAINT "receipt_line_items_receiptId_fkey" FOREIGN KEY ("receiptId") REFERENCES "receipts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "BillNoteType" AS ENUM ('CREDIT', 'DEBIT');
+
+-- CreateTable
+CREATE TABLE "bill_notes" (
+    "id" TEXT NOT NULL,
+    "billId" TEXT NOT NULL,
+    "type" "BillNoteType" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bill_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bill_notes_billId_idx" ON "bill_notes"("billId");
+
+-- AddForeignKey
+ALTER TABLE "bill_notes" ADD CONSTRAINT "bill_notes_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_notes" ADD CONSTRAINT "bill_notes_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "InterestPeriod" AS ENUM ('DAILY', 'MONTHLY');
+
+-- CreateTable
+CREATE TABLE "late_fee_rules" (
+    "id" TEXT NOT NULL,
+    "condominiumId" TEXT NOT NULL,
+    "flatFee" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "interestRate" DECIMAL(8,4) NOT NULL DEFAULT 0,
+    "interestPeriod" "InterestPeriod" NOT NULL DEFAULT 'MONTHLY',
+    "graceDays" INTEGER NOT NULL DEFAULT 0,
+    "maxPenalty" DECIMAL(12,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "late_fee_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bill_penalties" (
+    "id" TEXT NOT NULL,
+    "billId" TEXT NOT NULL,
+    "daysLate" INTEGER NOT NULL,
+    "flatFee" DECIMAL(12,2) NOT NULL,
+    "interest" DECIMAL(12,2) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "calculatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bill_penalties_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "late_fee_rules_condominiumId_key" ON "late_fee_rules"("condominiumId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bill_penalties_billId_key" ON "bill_penalties"("billId");
+
+-- AddForeignKey
+ALTER TABLE "late_fee_rules" ADD CONSTRAINT "late_fee_rules_condominiumId_fkey" FOREIGN KEY ("condominiumId") REFERENCES "condominiums"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_penalties" ADD CONSTRAINT "bill_penalties_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "condominiums" ADD COLUMN     "paymentDueDays" INTEGER NOT NULL DEFAULT 15;
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "dueDate" TIMESTAMP(3),
+ADD COLUMN     "statusChangedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "bills_status_dueDate_idx" ON "bills"("status", "dueDate");
+
+-- Backfill due dates of bills in periods that are already closed
+UPDATE "bills" AS b
+SET "dueDate" = p."endDate" + c."paymentDueDays" * INTERVAL '1 day'
+FROM "periods" AS p
+JOIN "condominiums" AS c ON c."id" = p."condominiumId"
+WHERE b."periodId" = p."id"
+  AND p."status" = 'CLOSED'
+  AND p."endDate" IS NOT NULL;
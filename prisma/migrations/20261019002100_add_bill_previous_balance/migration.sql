@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "condominiums" ADD COLUMN     "carryForwardBalance" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "previousBalance" DECIMAL(12,2),
+ADD COLUMN     "totalDue" DECIMAL(12,2);
+
+-- Existing bills carried no previous balance
+UPDATE "bills" SET "totalDue" = "totalCost";
+
+ALTER TABLE "bills" ALTER COLUMN "totalDue" SET NOT NULL;
@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "BankName" AS ENUM ('BCP', 'INTERBANK');
+
+-- CreateEnum
+CREATE TYPE "BankMovementStatus" AS ENUM ('UNMATCHED', 'PROPOSED', 'CONFIRMED', 'IGNORED');
+
+-- CreateTable
+CREATE TABLE "bank_statement_imports" (
+    "id" TEXT NOT NULL,
+    "condominiumId" TEXT NOT NULL,
+    "bank" "BankName" NOT NULL,
+    "accountNumber" TEXT,
+    "fileName" TEXT,
+    "importedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statement_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_movements" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "condominiumId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "description" TEXT NOT NULL,
+    "reference" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "status" "BankMovementStatus" NOT NULL DEFAULT 'UNMATCHED',
+    "billId" TEXT,
+    "unitId" TEXT,
+    "matchScore" INTEGER,
+    "matchReasons" JSONB,
+    "paymentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bank_statement_imports_condominiumId_idx" ON "bank_statement_imports"("condominiumId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_movements_paymentId_key" ON "bank_movements"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "bank_movements_importId_idx" ON "bank_movements"("importId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_movements_condominiumId_fingerprint_key" ON "bank_movements"("condominiumId", "fingerprint");
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_condominiumId_fkey" FOREIGN KEY ("condominiumId") REFERENCES "condominiums"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_importedById_fkey" FOREIGN KEY ("importedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_movements" ADD CONSTRAINT "bank_movements_importId_fkey" FOREIGN KEY ("importId") REFERENCES "bank_statement_imports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_movements" ADD CONSTRAINT "bank_movements_condominiumId_fkey" FOREIGN KEY ("condominiumId") REFERENCES "condominiums"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_movements" ADD CONSTRAINT "bank_movements_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_movements" ADD CONSTRAINT "bank_movements_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "units"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_movements" ADD CONSTRAINT "bank_movements_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
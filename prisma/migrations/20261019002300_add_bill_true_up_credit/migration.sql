@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "trueUpCredit" DECIMAL(12,2);
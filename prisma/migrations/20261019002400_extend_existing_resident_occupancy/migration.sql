@@ -0,0 +1,19 @@
+-- Residents assigned before occupancy dates existed were given their creation date
+-- as move-in, which left part of earlier periods without a resident. They now cover
+-- every period of the condominium, unless a move-in date was recorded since.
+UPDATE "unit_residents" AS ur
+SET "startDate" = first_period."startDate"
+FROM "units" AS u
+JOIN "blocks" AS b ON b."id" = u."blockId"
+JOIN (
+  SELECT "condominiumId", MIN("startDate") AS "startDate"
+  FROM "periods"
+  GROUP BY "condominiumId"
+) AS first_period ON first_period."condominiumId" = b."condominiumId"
+WHERE u."id" = ur."unitId"
+  AND ur."startDate" = ur."createdAt"
+  AND first_period."startDate" < ur."startDate"
+  AND ur."createdAt" < (
+    SELECT "finished_at" FROM "_prisma_migrations"
+    WHERE "migration_name" = '20261019001200_add_resident_occupancy_and_bill_shares'
+  );
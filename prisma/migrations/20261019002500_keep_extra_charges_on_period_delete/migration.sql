@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "extra_charges" DROP CONSTRAINT "extra_charges_startPeriodId_fkey";
+
+-- AddForeignKey: deleting a period no longer deletes the charges that start in it
+ALTER TABLE "extra_charges" ADD CONSTRAINT "extra_charges_startPeriodId_fkey" FOREIGN KEY ("startPeriodId") REFERENCES "periods"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
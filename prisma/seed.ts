@@ -10,21 +10,6 @@ async function main() {
   console.log('📝 Creating system configurations...');
   await prisma.systemConfig.createMany({
     data: [
-      {
-        key: 'water_basic_rate',
-        value: '1.5',
-        description: 'Basic water rate per cubic meter ($/m³)',
-      },
-      {
-        key: 'water_fixed_charge',
-        value: '5.0',
-        description: 'Fixed monthly charge per unit ($)',
-      },
-      {
-        key: 'water_minimum_consumption',
-        value: '2.0',
-        description: 'Minimum billable consumption per unit (m³)',
-      },
       {
         key: 'app_name',
         value: 'Water Management System',
@@ -143,6 +128,21 @@ async function main() {
     },
   });
 
+  // Configure the demo condominium's water tariff
+  await prisma.rateSetting.create({
+    data: {
+      condominiumId: demoCondominium.id,
+      tiers: [
+        { from: 0, to: 10, rate: 1.5 },
+        { from: 10, to: 20, rate: 2.2 },
+        { from: 20, to: null, rate: 3.8 },
+      ],
+      fixedCharge: 5.0,
+      minimumConsumption: 2.0,
+      effectiveFrom: new Date('2024-01-01T00:00:00.000Z'),
+    },
+  });
+
   // Link demo admin to demo condominium
   await prisma.condominiumUser.upsert({
     where: {
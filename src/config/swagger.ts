@@ -427,20 +427,20 @@ const options: swaggerJsdoc.Options = {
               description: 'Water consumption in cubic meters',
             },
             baseCost: {
-              type: 'number',
-              format: 'float',
+              type: 'string',
+              format: 'decimal',
               minimum: 0,
               description: 'Base cost calculation',
             },
             taxes: {
-              type: 'number',
-              format: 'float',
+              type: 'string',
+              format: 'decimal',
               minimum: 0,
               description: 'Applicable taxes',
             },
             totalAmount: {
-              type: 'number',
-              format: 'float',
+              type: 'string',
+              format: 'decimal',
               minimum: 0,
               description: 'Total amount to pay',
             },
@@ -482,11 +482,11 @@ const options: swaggerJsdoc.Options = {
               example: 'Per Unit Plan',
             },
             pricePerUnitPEN: {
-              type: 'number',
-              format: 'float',
+              type: 'string',
+              format: 'decimal',
               minimum: 0,
               description: 'Price per unit in Peruvian Soles',
-              example: 1.0,
+              example: '1.00',
             },
             minimumUnits: {
               type: 'integer',
@@ -549,18 +549,18 @@ const options: swaggerJsdoc.Options = {
               example: 8,
             },
             monthlyAmount: {
-              type: 'number',
-              format: 'float',
+              type: 'string',
+              format: 'decimal',
               minimum: 0,
               description: 'Monthly amount in PEN',
-              example: 8.0,
+              example: '8.00',
             },
             annualAmount: {
-              type: 'number',
-              format: 'float',
+              type: 'string',
+              format: 'decimal',
               minimum: 0,
               description: 'Annual amount in PEN',
-              example: 96.0,
+              example: '96.00',
             },
             startDate: {
               type: 'string',
@@ -12,7 +12,9 @@ import adminRoutes from './routes/admin';
 import condominiumRoutes from './routes/condominiums';
 import periodRoutes from './routes/periods';
 import billRoutes from './routes/bills';
+import paymentRoutes from './routes/payments';
 import subscriptionRoutes from './routes/subscriptions-simple';
+import { startOverdueBillsJob } from './jobs/overdueBillsJob';
 
 // Load environment variables
 dotenv.config();
@@ -69,6 +71,7 @@ app.use('/api/admin', adminRoutes);
 app.use('/api/condominiums', condominiumRoutes);
 app.use('/api/periods', periodRoutes);
 app.use('/api/bills', billRoutes);
+app.use('/api/payments', paymentRoutes);
 app.use('/api/subscriptions', subscriptionRoutes);
 
 // 404 handler
@@ -83,15 +86,20 @@ app.use((req, res) => {
 // Error handling middleware (must be last)
 app.use(errorHandler);
 
+// Background jobs
+const overdueBillsJob = startOverdueBillsJob(prisma);
+
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Received SIGINT, shutting down gracefully...');
+  if (overdueBillsJob) clearInterval(overdueBillsJob);
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('Received SIGTERM, shutting down gracefully...');
+  if (overdueBillsJob) clearInterval(overdueBillsJob);
   await prisma.$disconnect();
   process.exit(0);
 });
@@ -0,0 +1,38 @@
+import { PrismaClient } from '@prisma/client';
+import { BillStatusService } from '../services/billStatusService';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/**
+ * Periodically marks unpaid bills past their due date as OVERDUE. Runs once on
+ * start. Set OVERDUE_JOB_INTERVAL_MINUTES=0 to disable it, e.g. when another
+ * instance already runs it.
+ */
+export const startOverdueBillsJob = (prisma: PrismaClient): NodeJS.Timeout | null => {
+  const minutes = Number(process.env.OVERDUE_JOB_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES);
+
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    return null;
+  }
+
+  const billStatusService = new BillStatusService(prisma);
+
+  const run = async () => {
+    try {
+      const result = await billStatusService.markOverdueBills();
+      if (result.updated > 0) {
+        console.log(`Marked ${result.updated} bills as overdue`);
+      }
+    } catch (error) {
+      console.error('Failed to mark overdue bills:', error);
+    }
+  };
+
+  run();
+
+  const timer = setInterval(run, minutes * 60 * 1000);
+  // Do not keep the process alive just for this job
+  timer.unref();
+
+  return timer;
+};
@@ -7,6 +7,7 @@ import { authenticate, requireRole } from '../middleware/auth';
 import { hashPassword } from '../utils/password';
 // import { SubscriptionService } from '../services/subscription.service';
 import { formatPricePEN } from '../utils/pricing';
+import { moneySchema, toMoney } from '../utils/money';
 
 const router = express.Router();
 // const subscriptionService = new SubscriptionService();
@@ -18,7 +19,7 @@ router.use(requireRole(UserRole.SUPER_ADMIN));
 // Validation schemas
 const createPlanSchema = z.object({
   name: z.string().min(1, 'Plan name is required').default('Per Unit Plan'),
-  pricePerUnitPEN: z.number().min(0, 'Price per unit must be non-negative').default(1.0),
+  pricePerUnitPEN: moneySchema.refine(value => value.gte(0), 'Price per unit must be non-negative').default(1.0),
   minimumUnits: z.number().min(1, 'Minimum units must be at least 1').default(6),
   isAnnualPrepaid: z.boolean().default(true),
   features: z.array(z.string()).default([]),
@@ -488,8 +489,8 @@ router.get('/dashboard/metrics', asyncHandler(async (req, res) => {
     where: { isActive: true }
   });
 
-  const pricePerUnit = defaultPlan?.pricePerUnitPEN || 1.0;
-  const estimatedMonthlyRevenue = totalUnits * pricePerUnit;
+  const pricePerUnit = defaultPlan?.pricePerUnitPEN ?? toMoney(1);
+  const estimatedMonthlyRevenue = pricePerUnit.times(totalUnits);
 
   res.json({
     condominiums: {
@@ -1,10 +1,15 @@
 import express from 'express';
 import { z } from 'zod';
-import { UserRole, BillStatus } from '@prisma/client';
+import { UserRole, BillStatus, BillNoteType, CommonAreaDistribution } from '@prisma/client';
 import { prisma } from '../index';
 import { createError, asyncHandler } from '../middleware/errorHandler';
 import { authenticate, requireCondominiumAccess } from '../middleware/auth';
 import { CalculationService } from '../services/calculationService';
+import { LedgerService, getAdjustedTotal, getBillOutstanding } from '../services/ledgerService';
+import { PenaltyService } from '../services/penaltyService';
+import { PaymentService } from '../services/paymentService';
+import { ZERO, decimalSchema, moneySchema, sumMoney } from '../utils/money';
+import { TariffTier, validateTariffTiers } from '../utils/tariffs';
 
 const router = express.Router();
 
@@ -12,12 +17,50 @@ const router = express.Router();
 router.use(authenticate);
 
 const calculationService = new CalculationService(prisma);
+const ledgerService = new LedgerService(prisma);
+const penaltyService = new PenaltyService(prisma);
+const paymentService = new PaymentService(prisma);
 
 // Validation schemas
 const calculatePeriodSchema = z.object({
   periodId: z.string().min(1, 'Period ID is required'),
 });
 
+const simulateSchema = z.object({
+  periodId: z.string().min(1, 'Period ID is required'),
+  rates: z.object({
+    tiers: z.array(z.object({
+      from: z.number().min(0, 'Tier lower bound must be non-negative'),
+      to: z.number().positive('Tier upper bound must be positive').nullable().optional(),
+      rate: z.number().min(0, 'Tier rate must be non-negative'),
+    })).min(1, 'At least one tariff tier is required').optional(),
+    commonAreaRate: decimalSchema(4).refine(value => value.gte(0), 'Common area rate must be non-negative').nullable().optional(),
+    fixedCharge: moneySchema.refine(value => value.gte(0), 'Fixed charge must be non-negative').nullable().optional(),
+    minimumConsumption: z.number().min(0, 'Minimum consumption must be non-negative').nullable().optional(),
+  }).optional(),
+  rateAdjustmentPercent: z.number().min(-100, 'Rates cannot drop more than 100%').optional(),
+  distributionStrategy: z.nativeEnum(CommonAreaDistribution).optional(),
+  receipt: z.object({
+    totalVolume: z.number().positive('Total volume must be positive').optional(),
+    totalAmount: moneySchema.refine(value => value.gt(0), 'Total amount must be positive').optional(),
+  }).optional(),
+});
+
+const createBillNoteSchema = z.object({
+  type: z.nativeEnum(BillNoteType),
+  amount: moneySchema.refine(value => value.gt(0), 'Amount must be positive'),
+  reason: z.string().trim().min(1, 'Reason is required'),
+});
+
+const statementSchema = z.object({
+  from: z.string().datetime('Invalid date').optional(),
+  to: z.string().datetime('Invalid date').optional(),
+});
+
+const applyPenaltiesSchema = z.object({
+  asOf: z.string().datetime('Invalid date').optional(),
+});
+
 const updateBillStatusSchema = z.object({
   status: z.enum([BillStatus.PENDING, BillStatus.SENT, BillStatus.PAID, BillStatus.OVERDUE]),
   paidAt: z.string().datetime().optional(),
@@ -64,8 +107,8 @@ router.post('/calculate', asyncHandler(async (req, res) => {
     // Perform calculation
     const calculationResult = await calculationService.calculatePeriodBills(periodId);
     
-    // Save bills to database
-    await calculationService.saveBills(periodId, calculationResult);
+    // Save bills to database, recording this run as a new calculation version
+    const version = await calculationService.saveBills(periodId, calculationResult, req.user!.id);
 
     // Log action
     await prisma.auditLog.create({
@@ -75,8 +118,9 @@ router.post('/calculate', asyncHandler(async (req, res) => {
         entity: 'Period',
         entityId: periodId,
         newData: {
+          version: version.version,
           totalBills: calculationResult.bills.length,
-          totalAmount: calculationResult.bills.reduce((sum, bill) => sum + bill.totalCost, 0),
+          totalAmount: sumMoney(calculationResult.bills.map(bill => bill.totalCost)),
           anomalies: calculationResult.anomalies,
         },
         ipAddress: req.ip,
@@ -87,12 +131,16 @@ router.post('/calculate', asyncHandler(async (req, res) => {
     res.json({
       success: true,
       message: 'Bills calculated and saved successfully',
+      version: version.version,
       summary: {
         totalBills: calculationResult.bills.length,
         totalIndividualConsumption: calculationResult.totalIndividualConsumption,
         commonAreaConsumption: calculationResult.commonAreaConsumption,
+        measuredCommonConsumption: calculationResult.measuredCommonConsumption,
+        unexplainedLoss: calculationResult.unexplainedLoss,
         commonAreaCostPerUnit: calculationResult.commonAreaCostPerUnit,
-        totalAmount: calculationResult.bills.reduce((sum, bill) => sum + bill.totalCost, 0),
+        distributionStrategy: calculationResult.distributionStrategy,
+        totalAmount: sumMoney(calculationResult.bills.map(bill => bill.totalCost)),
         anomalies: calculationResult.anomalies,
       },
     });
@@ -134,6 +182,50 @@ router.post('/preview', asyncHandler(async (req, res) => {
   }
 }));
 
+// Simulate bills with overridden rates, distribution or receipt (without saving)
+router.post('/simulate', asyncHandler(async (req, res) => {
+  const { periodId, ...overrides } = simulateSchema.parse(req.body);
+
+  // Get period to check condominium access
+  const period = await prisma.period.findUnique({
+    where: { id: periodId },
+    select: { condominiumId: true },
+  });
+
+  if (!period) {
+    throw createError('Period not found', 404);
+  }
+
+  // Check access to condominium
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === period.condominiumId
+    );
+    
+    if (!hasAccess) {
+      throw createError('Access denied to simulate calculations for this period', 403);
+    }
+  }
+
+  if (overrides.rates?.tiers) {
+    const sortedTiers = [...overrides.rates.tiers].sort((a, b) => a.from - b.from) as TariffTier[];
+    const validation = validateTariffTiers(sortedTiers);
+    if (!validation.isValid) {
+      throw createError(`Invalid tariff tiers: ${validation.errors.join(', ')}`, 400);
+    }
+  }
+
+  try {
+    const simulation = await calculationService.simulatePeriodBills(periodId, {
+      ...overrides,
+      rates: overrides.rates && { ...overrides.rates, tiers: overrides.rates.tiers as TariffTier[] },
+    });
+    res.json(simulation);
+  } catch (error) {
+    throw createError(`Simulation failed: ${error.message}`, 400);
+  }
+}));
+
 // Get calculation summary for a period
 router.get('/summary/:periodId', asyncHandler(async (req, res) => {
   const periodId = req.params.periodId;
@@ -339,6 +431,74 @@ router.get('/unit/:unitId', asyncHandler(async (req, res) => {
   });
 }));
 
+// Get a unit's account: bills, credit/debit notes and payments with running balance
+router.get('/unit/:unitId/balance', asyncHandler(async (req, res) => {
+  const unit = await prisma.unit.findUnique({
+    where: { id: req.params.unitId },
+    include: {
+      block: {
+        select: {
+          condominiumId: true,
+        },
+      },
+    },
+  });
+
+  if (!unit) {
+    throw createError('Unit not found', 404);
+  }
+
+  // Check access to condominium
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === unit.block.condominiumId
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied to this unit', 403);
+    }
+  }
+
+  res.json(await ledgerService.getUnitLedger(unit.id));
+}));
+
+// Get a unit's account statement for a date range, with opening and closing balance
+router.get('/unit/:unitId/statement', asyncHandler(async (req, res) => {
+  const { from, to } = statementSchema.parse(req.query);
+
+  const unit = await prisma.unit.findUnique({
+    where: { id: req.params.unitId },
+    include: {
+      block: {
+        select: {
+          condominiumId: true,
+        },
+      },
+    },
+  });
+
+  if (!unit) {
+    throw createError('Unit not found', 404);
+  }
+
+  // Check access to condominium
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === unit.block.condominiumId
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied to this unit', 403);
+    }
+  }
+
+  res.json(await ledgerService.getUnitStatement(
+    unit.id,
+    from ? new Date(from) : undefined,
+    to ? new Date(to) : undefined
+  ));
+}));
+
 // Get single bill details
 router.get('/:billId', asyncHandler(async (req, res) => {
   const bill = await prisma.bill.findUnique({
@@ -361,6 +521,24 @@ router.get('/:billId', asyncHandler(async (req, res) => {
           },
         },
       },
+      shares: {
+        orderBy: { startDate: 'asc' },
+      },
+      notes: {
+        include: {
+          createdBy: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
+      penalty: true,
+      paymentAllocations: {
+        include: {
+          payment: {
+            select: { id: true, method: true, reference: true, paidAt: true },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
       period: {
         select: {
           id: true,
@@ -395,7 +573,97 @@ router.get('/:billId', asyncHandler(async (req, res) => {
     }
   }
 
-  res.json(bill);
+  res.json({
+    ...bill,
+    adjustedTotal: getAdjustedTotal(bill.totalCost, bill.notes),
+    outstanding: getBillOutstanding(bill),
+  });
+}));
+
+// Issue a credit or debit note against a bill; the bill itself is left unchanged.
+// The part of a credit beyond what is still owed on the bill pays the unit's other
+// bills, oldest first; what is left is carried as credit onto its next bills.
+router.post('/:billId/notes', asyncHandler(async (req, res) => {
+  const data = createBillNoteSchema.parse(req.body);
+
+  const bill = await prisma.bill.findUnique({
+    where: { id: req.params.billId },
+    include: {
+      notes: true,
+      penalty: true,
+      paymentAllocations: true,
+      unit: {
+        include: {
+          block: {
+            select: {
+              condominiumId: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!bill) {
+    throw createError('Bill not found', 404);
+  }
+
+  // Check access to condominium - only ADMIN can issue notes
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === bill.unit.block.condominiumId &&
+      access.role === UserRole.ADMIN
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied. Only administrators can issue credit or debit notes.', 403);
+    }
+  }
+
+  const adjustedTotal = getAdjustedTotal(bill.totalCost, bill.notes);
+  if (data.type === BillNoteType.CREDIT && data.amount.gt(adjustedTotal)) {
+    throw createError(`Credit of ${data.amount.toFixed(2)} exceeds the bill's adjusted total of ${adjustedTotal.toFixed(2)}`, 400);
+  }
+
+  const { note, creditTransfers } = await prisma.$transaction(async (tx) => {
+    const note = await tx.billNote.create({
+      data: {
+        billId: bill.id,
+        type: data.type,
+        amount: data.amount,
+        reason: data.reason,
+        createdById: req.user!.id,
+      },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+
+    const creditTransfers = data.type === BillNoteType.CREDIT && data.amount.gt(getBillOutstanding(bill))
+      ? await paymentService.applyCredits(bill.unitId, req.user!.id, tx)
+      : [];
+
+    return { note, creditTransfers };
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CREATE',
+      entity: 'BillNote',
+      entityId: note.id,
+      newData: { billId: bill.id, type: note.type, amount: note.amount, reason: note.reason, creditTransfers },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(201).json({
+    note,
+    adjustedTotal: getAdjustedTotal(bill.totalCost, [...bill.notes, note]),
+    creditTransfers,
+  });
 }));
 
 // Update bill status
@@ -437,6 +705,10 @@ router.put('/:billId/status', asyncHandler(async (req, res) => {
     status: data.status,
   };
 
+  if (data.status !== bill.status) {
+    updateData.statusChangedAt = new Date();
+  }
+
   if (data.status === BillStatus.PAID && data.paidAt) {
     updateData.paidAt = new Date(data.paidAt);
   } else if (data.status === BillStatus.PAID && !data.paidAt) {
@@ -450,9 +722,62 @@ router.put('/:billId/status', asyncHandler(async (req, res) => {
     data: updateData,
   });
 
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'UPDATE_STATUS',
+      entity: 'Bill',
+      entityId: bill.id,
+      oldData: { status: bill.status, paidAt: bill.paidAt },
+      newData: { status: updatedBill.status, paidAt: updatedBill.paidAt, statusChangedAt: updatedBill.statusChangedAt },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
   res.json(updatedBill);
 }));
 
+// ============== LATE FEES ==============
+
+// Recalculate late fees of the condominium's overdue bills with its late fee rule
+router.post('/condominium/:condominiumId/penalties/apply',
+  requireCondominiumAccess([UserRole.ADMIN]),
+  asyncHandler(async (req, res) => {
+    const data = applyPenaltiesSchema.parse(req.body ?? {});
+
+    let result;
+    try {
+      result = await penaltyService.applyPenalties(
+        req.params.condominiumId,
+        data.asOf ? new Date(data.asOf) : new Date()
+      );
+    } catch (error) {
+      throw createError(`Applying late fees failed: ${error.message}`, 400);
+    }
+
+    // Log action
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'APPLY_PENALTIES',
+        entity: 'Condominium',
+        entityId: req.params.condominiumId,
+        newData: {
+          asOf: result.asOf,
+          penalties: result.penalties.length,
+          totalPenalties: result.totalPenalties,
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      },
+    });
+
+    res.json(result);
+  })
+);
+
 // ============== REPORTS ==============
 
 // Get billing summary for condominium
@@ -482,6 +807,8 @@ router.get('/condominium/:condominiumId/summary',
       pendingAmount,
       overdueAmount,
       statusBreakdown,
+      penaltyAmount,
+      outstandingPenaltyAmount,
     ] = await Promise.all([
       prisma.bill.count({ where }),
       prisma.bill.aggregate({
@@ -506,15 +833,26 @@ router.get('/condominium/:condominiumId/summary',
         _count: { status: true },
         _sum: { totalCost: true },
       }),
+      prisma.billPenalty.aggregate({
+        where: { bill: where },
+        _sum: { amount: true },
+      }),
+      prisma.billPenalty.aggregate({
+        where: { bill: { ...where, status: { not: BillStatus.PAID } } },
+        _sum: { amount: true },
+      }),
     ]);
 
     res.json({
       totalBills,
-      totalAmount: totalAmount._sum.totalCost || 0,
-      paidAmount: paidAmount._sum.totalCost || 0,
-      pendingAmount: pendingAmount._sum.totalCost || 0,
-      overdueAmount: overdueAmount._sum.totalCost || 0,
+      totalAmount: totalAmount._sum.totalCost ?? ZERO,
+      paidAmount: paidAmount._sum.totalCost ?? ZERO,
+      pendingAmount: pendingAmount._sum.totalCost ?? ZERO,
+      overdueAmount: overdueAmount._sum.totalCost ?? ZERO,
       statusBreakdown,
+      // Late fees are reported apart from the billed water cost above
+      penaltyAmount: penaltyAmount._sum.amount ?? ZERO,
+      outstandingPenaltyAmount: outstandingPenaltyAmount._sum.amount ?? ZERO,
     });
   })
 );
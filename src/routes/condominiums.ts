@@ -1,10 +1,12 @@
 import express from 'express';
 import { z } from 'zod';
-import { UserRole } from '@prisma/client';
+import { UserRole, CommonAreaDistribution, ExtraChargeType, MeterType, ProrationMethod, InterestPeriod } from '@prisma/client';
 import { prisma } from '../index';
 import { createError, asyncHandler } from '../middleware/errorHandler';
 import { authenticate, requireCondominiumAccess } from '../middleware/auth';
 import { hashPassword } from '../utils/password';
+import { TariffTier, validateTariffTiers } from '../utils/tariffs';
+import { decimalSchema, moneySchema } from '../utils/money';
 
 const router = express.Router();
 
@@ -20,6 +22,46 @@ const createBlockSchema = z.object({
 const createUnitSchema = z.object({
   name: z.string().min(1, 'Unit name is required'),
   blockId: z.string().min(1, 'Block ID is required'),
+  aliquot: z.number().min(0, 'Aliquot must be non-negative').max(100, 'Aliquot cannot exceed 100%').optional(),
+  occupants: z.number().int().min(0, 'Occupants must be non-negative').optional(),
+});
+
+const updateUnitSchema = z.object({
+  name: z.string().min(1, 'Unit name is required').optional(),
+  aliquot: z.number().min(0, 'Aliquot must be non-negative').max(100, 'Aliquot cannot exceed 100%').nullable().optional(),
+  occupants: z.number().int().min(0, 'Occupants must be non-negative').nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const createMeterSchema = z.object({
+  type: z.nativeEnum(MeterType).default(MeterType.WATER),
+  serialNumber: z.string().min(1).optional(),
+  maxDigits: z.number().int().min(1).max(12).optional(),
+});
+
+const updateMeterSchema = z.object({
+  serialNumber: z.string().min(1).nullable().optional(),
+  maxDigits: z.number().int().min(1).max(12).nullable().optional(),
+});
+
+const createCommonMeterSchema = createMeterSchema.extend({
+  name: z.string().min(1, 'Common area name is required'),
+  blockId: z.string().min(1).nullable().optional(),
+  initialReading: z.number().min(0, 'Initial reading must be non-negative').default(0),
+});
+
+const updateCommonMeterSchema = updateMeterSchema.extend({
+  name: z.string().min(1).optional(),
+  blockId: z.string().min(1).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const replaceMeterSchema = z.object({
+  finalReading: z.number().min(0, 'Final reading must be non-negative'),
+  serialNumber: z.string().min(1).optional(),
+  initialReading: z.number().min(0, 'Initial reading must be non-negative').default(0),
+  maxDigits: z.number().int().min(1).max(12).nullable().optional(),
+  replacedAt: z.string().datetime('Invalid replacement date').optional(),
 });
 
 const createResidentSchema = z.object({
@@ -42,6 +84,60 @@ const createUserSchema = z.object({
   role: z.enum([UserRole.ADMIN, UserRole.ANALYST, UserRole.EDITOR]),
 });
 
+const tariffTierSchema = z.object({
+  from: z.number().min(0, 'Tier lower bound must be non-negative'),
+  to: z.number().positive('Tier upper bound must be positive').nullable().optional(),
+  rate: z.number().min(0, 'Tier rate must be non-negative'),
+});
+
+const rateSettingSchema = z.object({
+  periodId: z.string().min(1).nullable().optional(),
+  utilityType: z.nativeEnum(MeterType).default(MeterType.WATER),
+  tiers: z.array(tariffTierSchema).min(1, 'At least one tariff tier is required'),
+  commonAreaRate: decimalSchema(4).refine(value => value.gte(0), 'Common area rate must be non-negative').nullable().optional(),
+  fixedCharge: moneySchema.refine(value => value.gte(0), 'Fixed charge must be non-negative').nullable().optional(),
+  minimumConsumption: z.number().min(0, 'Minimum consumption must be non-negative').nullable().optional(),
+  effectiveFrom: z.string().datetime('Invalid effective from date'),
+  effectiveTo: z.string().datetime('Invalid effective to date').nullable().optional(),
+});
+
+const updateRateSettingSchema = rateSettingSchema.partial().extend({
+  utilityType: z.nativeEnum(MeterType).optional(),
+});
+
+const lateFeeRuleSchema = z.object({
+  flatFee: moneySchema.refine(value => value.gte(0), 'Flat fee must be non-negative').default(0),
+  interestRate: decimalSchema(4).refine(value => value.gte(0), 'Interest rate must be non-negative').default(0),
+  interestPeriod: z.nativeEnum(InterestPeriod).default(InterestPeriod.MONTHLY),
+  graceDays: z.number().int().min(0, 'Grace days must be non-negative').default(0),
+  maxPenalty: moneySchema.refine(value => value.gt(0), 'Cap must be positive').nullable().optional(),
+  isActive: z.boolean().default(true),
+});
+
+const extraChargeSchema = z.object({
+  description: z.string().min(1, 'Description is required'),
+  type: z.nativeEnum(ExtraChargeType).default(ExtraChargeType.FIXED),
+  amount: moneySchema.refine(value => value.gt(0), 'Amount must be positive'),
+  blockId: z.string().min(1).nullable().optional(),
+  unitId: z.string().min(1).nullable().optional(),
+  isRecurring: z.boolean().default(false),
+  startPeriodId: z.string().min(1, 'Start period is required'),
+  endPeriodId: z.string().min(1).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const updateExtraChargeSchema = z.object({
+  description: z.string().min(1, 'Description is required').optional(),
+  type: z.nativeEnum(ExtraChargeType).optional(),
+  amount: moneySchema.refine(value => value.gt(0), 'Amount must be positive').optional(),
+  blockId: z.string().min(1).nullable().optional(),
+  unitId: z.string().min(1).nullable().optional(),
+  isRecurring: z.boolean().optional(),
+  startPeriodId: z.string().min(1).optional(),
+  endPeriodId: z.string().min(1).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
 const createCondominiumSchema = z.object({
   name: z.string().min(1, 'Condominium name is required'),
   address: z.string().min(1, 'Address is required'),
@@ -535,6 +631,13 @@ router.put('/:id', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(asyn
     readingDay: z.number().min(1).max(31).optional(),
     bankAccount: z.string().optional(),
     bankAccountHolder: z.string().optional(),
+    commonAreaDistribution: z.nativeEnum(CommonAreaDistribution).optional(),
+    prorationMethod: z.nativeEnum(ProrationMethod).optional(),
+    anomalyZScoreThreshold: z.number().positive('Z-score threshold must be positive').optional(),
+    anomalyPercentThreshold: z.number().positive('Percent threshold must be positive').optional(),
+    anomalyHistoryPeriods: z.number().int().min(3, 'At least 3 periods of history are required').max(24).optional(),
+    paymentDueDays: z.number().int().min(0).max(365).optional(),
+    carryForwardBalance: z.boolean().optional(),
   });
 
   const data = updateSchema.parse(req.body);
@@ -704,6 +807,8 @@ router.post('/:condominiumId/units', requireCondominiumAccess([UserRole.ADMIN, U
       data: {
         name: data.name,
         blockId: data.blockId,
+        aliquot: data.aliquot,
+        occupants: data.occupants,
       },
     });
 
@@ -737,6 +842,46 @@ router.post('/:condominiumId/units', requireCondominiumAccess([UserRole.ADMIN, U
   });
 }));
 
+// Update unit (name, aliquot and occupants used for common area distribution)
+router.put('/:condominiumId/units/:unitId', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = updateUnitSchema.parse(req.body);
+
+  // Verify unit belongs to this condominium
+  const unit = await prisma.unit.findFirst({
+    where: {
+      id: req.params.unitId,
+      block: {
+        condominiumId: req.params.condominiumId,
+      },
+    },
+  });
+
+  if (!unit) {
+    throw createError('Unit not found in this condominium', 404);
+  }
+
+  const updatedUnit = await prisma.unit.update({
+    where: { id: req.params.unitId },
+    data,
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'UPDATE',
+      entity: 'Unit',
+      entityId: unit.id,
+      oldData: unit,
+      newData: updatedUnit,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(updatedUnit);
+}));
+
 // Get units
 router.get('/:id/units', requireCondominiumAccess(), asyncHandler(async (req, res) => {
   const page = parseInt(req.query.page as string) || 1;
@@ -852,6 +997,321 @@ router.put('/:condominiumId/units/:unitId/resident',
   })
 );
 
+// ============== METERS MANAGEMENT ==============
+
+// Get meters of a unit
+router.get('/:condominiumId/units/:unitId/meters', requireCondominiumAccess(), asyncHandler(async (req, res) => {
+  const includeInactive = req.query.includeInactive === 'true';
+
+  // Verify unit belongs to this condominium
+  const unit = await prisma.unit.findFirst({
+    where: {
+      id: req.params.unitId,
+      block: {
+        condominiumId: req.params.condominiumId,
+      },
+    },
+  });
+
+  if (!unit) {
+    throw createError('Unit not found in this condominium', 404);
+  }
+
+  const meters = await prisma.meter.findMany({
+    where: {
+      unitId: req.params.unitId,
+      ...(includeInactive ? {} : { isActive: true }),
+    },
+    orderBy: { installedAt: 'asc' },
+  });
+
+  res.json({ meters });
+}));
+
+// Add meter to unit (e.g. a second water inlet)
+router.post('/:condominiumId/units/:unitId/meters', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = createMeterSchema.parse(req.body);
+
+  // Verify unit belongs to this condominium
+  const unit = await prisma.unit.findFirst({
+    where: {
+      id: req.params.unitId,
+      block: {
+        condominiumId: req.params.condominiumId,
+      },
+    },
+  });
+
+  if (!unit) {
+    throw createError('Unit not found in this condominium', 404);
+  }
+
+  const meter = await prisma.meter.create({
+    data: {
+      unitId: req.params.unitId,
+      type: data.type,
+      serialNumber: data.serialNumber,
+      maxDigits: data.maxDigits,
+    },
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CREATE',
+      entity: 'Meter',
+      entityId: meter.id,
+      newData: meter,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(201).json(meter);
+}));
+
+// Update meter (serial number, number of digits for rollover detection)
+router.put('/:condominiumId/units/:unitId/meters/:meterId', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = updateMeterSchema.parse(req.body);
+
+  // Verify meter belongs to the unit in this condominium
+  const meter = await prisma.meter.findFirst({
+    where: {
+      id: req.params.meterId,
+      unitId: req.params.unitId,
+      unit: {
+        block: {
+          condominiumId: req.params.condominiumId,
+        },
+      },
+    },
+  });
+
+  if (!meter) {
+    throw createError('Meter not found in this unit', 404);
+  }
+
+  const updatedMeter = await prisma.meter.update({
+    where: { id: req.params.meterId },
+    data,
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'UPDATE',
+      entity: 'Meter',
+      entityId: meter.id,
+      oldData: meter,
+      newData: updatedMeter,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(updatedMeter);
+}));
+
+// Replace meter: retire the old meter with its final reading and install a new one
+router.post('/:condominiumId/units/:unitId/meters/:meterId/replace', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = replaceMeterSchema.parse(req.body);
+
+  // Verify meter belongs to the unit in this condominium
+  const meter = await prisma.meter.findFirst({
+    where: {
+      id: req.params.meterId,
+      unitId: req.params.unitId,
+      unit: {
+        block: {
+          condominiumId: req.params.condominiumId,
+        },
+      },
+    },
+  });
+
+  if (!meter) {
+    throw createError('Meter not found in this unit', 404);
+  }
+
+  if (!meter.isActive) {
+    throw createError('Meter has already been retired', 400);
+  }
+
+  // The final reading cannot go back unless the meter may have rolled over
+  const lastReading = await prisma.reading.findFirst({
+    where: { meterId: meter.id },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (lastReading && !meter.maxDigits && data.finalReading < lastReading.value) {
+    throw createError(
+      `Final reading (${data.finalReading}) is lower than the last recorded reading (${lastReading.value})`,
+      400
+    );
+  }
+
+  const replacedAt = data.replacedAt ? new Date(data.replacedAt) : new Date();
+
+  const result = await prisma.$transaction(async (tx) => {
+    const retiredMeter = await tx.meter.update({
+      where: { id: meter.id },
+      data: {
+        isActive: false,
+        replacedAt,
+        finalReading: data.finalReading,
+      },
+    });
+
+    const newMeter = await tx.meter.create({
+      data: {
+        unitId: meter.unitId,
+        type: meter.type,
+        serialNumber: data.serialNumber,
+        maxDigits: data.maxDigits !== undefined ? data.maxDigits : meter.maxDigits,
+        initialReading: data.initialReading,
+        installedAt: replacedAt,
+        replacesMeterId: meter.id,
+      },
+    });
+
+    return { retiredMeter, newMeter };
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'REPLACE',
+      entity: 'Meter',
+      entityId: meter.id,
+      oldData: meter,
+      newData: result,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(201).json(result);
+}));
+
+// ============== COMMON-AREA METERS ==============
+
+// Get common-area meters (pool, garden, lobby) of the condominium and its blocks
+router.get('/:condominiumId/common-meters', requireCondominiumAccess(), asyncHandler(async (req, res) => {
+  const includeInactive = req.query.includeInactive === 'true';
+
+  const meters = await prisma.meter.findMany({
+    where: {
+      condominiumId: req.params.condominiumId,
+      unitId: null,
+      ...(includeInactive ? {} : { isActive: true }),
+    },
+    include: {
+      block: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+    orderBy: { installedAt: 'asc' },
+  });
+
+  res.json({ meters });
+}));
+
+// Add common-area meter, optionally scoped to a block
+router.post('/:condominiumId/common-meters', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = createCommonMeterSchema.parse(req.body);
+
+  if (data.blockId) {
+    const block = await prisma.block.findFirst({
+      where: { id: data.blockId, condominiumId: req.params.condominiumId },
+    });
+
+    if (!block) {
+      throw createError('Block not found in this condominium', 404);
+    }
+  }
+
+  const meter = await prisma.meter.create({
+    data: {
+      condominiumId: req.params.condominiumId,
+      blockId: data.blockId,
+      name: data.name,
+      type: data.type,
+      serialNumber: data.serialNumber,
+      maxDigits: data.maxDigits,
+      initialReading: data.initialReading,
+    },
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CREATE',
+      entity: 'Meter',
+      entityId: meter.id,
+      newData: meter,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(201).json(meter);
+}));
+
+// Update common-area meter
+router.put('/:condominiumId/common-meters/:meterId', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = updateCommonMeterSchema.parse(req.body);
+
+  const meter = await prisma.meter.findFirst({
+    where: {
+      id: req.params.meterId,
+      condominiumId: req.params.condominiumId,
+      unitId: null,
+    },
+  });
+
+  if (!meter) {
+    throw createError('Common-area meter not found in this condominium', 404);
+  }
+
+  if (data.blockId) {
+    const block = await prisma.block.findFirst({
+      where: { id: data.blockId, condominiumId: req.params.condominiumId },
+    });
+
+    if (!block) {
+      throw createError('Block not found in this condominium', 404);
+    }
+  }
+
+  const updatedMeter = await prisma.meter.update({
+    where: { id: meter.id },
+    data,
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'UPDATE',
+      entity: 'Meter',
+      entityId: meter.id,
+      oldData: meter,
+      newData: updatedMeter,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(updatedMeter);
+}));
+
 // ============== RESIDENTS MANAGEMENT ==============
 
 // Create resident
@@ -1027,6 +1487,8 @@ router.post('/:condominiumId/units/:unitId/residents', requireCondominiumAccess(
   const addResidentSchema = z.object({
     residentId: z.string().min(1, 'Resident ID is required'),
     isPrimary: z.boolean().optional().default(false),
+    startDate: z.string().datetime('Invalid move-in date').optional(),
+    startReading: z.number().min(0, 'Reading must be non-negative').optional(),
   });
 
   const data = addResidentSchema.parse(req.body);
@@ -1040,7 +1502,9 @@ router.post('/:condominiumId/units/:unitId/residents', requireCondominiumAccess(
       },
     },
     include: {
-      unitResidents: true,
+      unitResidents: {
+        where: { endDate: null },
+      },
     },
   });
 
@@ -1048,7 +1512,7 @@ router.post('/:condominiumId/units/:unitId/residents', requireCondominiumAccess(
     throw createError('Unit not found in this condominium', 404);
   }
 
-  // Check if unit already has maximum residents (2)
+  // Check if unit already has maximum current residents (2); former residents don't count
   if (unit.unitResidents.length >= 2) {
     throw createError('Unit already has maximum number of residents (2)', 400);
   }
@@ -1079,10 +1543,10 @@ router.post('/:condominiumId/units/:unitId/residents', requireCondominiumAccess(
     throw createError('Resident is already assigned to this unit', 400);
   }
 
-  // If this will be the primary resident, clear any existing primary
+  // If this will be the primary resident, clear the current primary; former residents keep theirs for proration
   if (data.isPrimary || unit.unitResidents.length === 0) {
     await prisma.unitResident.updateMany({
-      where: { unitId: req.params.unitId },
+      where: { unitId: req.params.unitId, endDate: null },
       data: { isPrimary: false },
     });
   }
@@ -1093,6 +1557,8 @@ router.post('/:condominiumId/units/:unitId/residents', requireCondominiumAccess(
       unitId: req.params.unitId,
       residentId: data.residentId,
       isPrimary: data.isPrimary || unit.unitResidents.length === 0,
+      startDate: data.startDate ? new Date(data.startDate) : undefined,
+      startReading: data.startReading,
     },
     include: {
       resident: {
@@ -1117,9 +1583,15 @@ router.post('/:condominiumId/units/:unitId/residents', requireCondominiumAccess(
   res.status(201).json(unitResident);
 }));
 
-// Remove resident from unit
-router.delete('/:condominiumId/units/:unitId/residents/:residentId', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
-  // Verify assignment exists
+// Record a resident moving out; the assignment is kept so bills can be prorated
+router.post('/:condominiumId/units/:unitId/residents/:residentId/move-out', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const moveOutSchema = z.object({
+    endDate: z.string().datetime('Invalid move-out date'),
+    endReading: z.number().min(0, 'Reading must be non-negative').optional(),
+  });
+
+  const data = moveOutSchema.parse(req.body);
+
   const unitResident = await prisma.unitResident.findUnique({
     where: {
       unitId_residentId: {
@@ -1145,7 +1617,90 @@ router.delete('/:condominiumId/units/:unitId/residents/:residentId', requireCond
     throw createError('Unit not found in this condominium', 404);
   }
 
-  const wasPrimary = unitResident.isPrimary;
+  if (unitResident.endDate) {
+    throw createError('Resident has already moved out of this unit', 400);
+  }
+
+  const endDate = new Date(data.endDate);
+  if (endDate < unitResident.startDate) {
+    throw createError('Move-out date must not be before the move-in date', 400);
+  }
+
+  const updatedUnitResident = await prisma.unitResident.update({
+    where: { id: unitResident.id },
+    data: {
+      endDate,
+      endReading: data.endReading,
+    },
+  });
+
+  // Promote the longest-standing current resident if the primary one left
+  if (unitResident.isPrimary) {
+    const nextPrimary = await prisma.unitResident.findFirst({
+      where: { unitId: req.params.unitId, endDate: null },
+      orderBy: { startDate: 'asc' },
+    });
+
+    if (nextPrimary) {
+      await prisma.unitResident.update({
+        where: { id: nextPrimary.id },
+        data: { isPrimary: true },
+      });
+    }
+
+    // Update legacy field
+    await prisma.unit.update({
+      where: { id: req.params.unitId },
+      data: { residentId: nextPrimary?.residentId ?? null },
+    });
+  }
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'MOVE_OUT',
+      entity: 'UnitResident',
+      entityId: unitResident.id,
+      oldData: { endDate: null, endReading: null },
+      newData: { endDate, endReading: data.endReading ?? null },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(updatedUnitResident);
+}));
+
+// Remove resident from unit
+router.delete('/:condominiumId/units/:unitId/residents/:residentId', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  // Verify assignment exists
+  const unitResident = await prisma.unitResident.findUnique({
+    where: {
+      unitId_residentId: {
+        unitId: req.params.unitId,
+        residentId: req.params.residentId,
+      },
+    },
+    include: {
+      unit: {
+        include: {
+          block: true,
+        },
+      },
+    },
+  });
+
+  if (!unitResident) {
+    throw createError('Resident assignment not found', 404);
+  }
+
+  // Verify unit belongs to condominium
+  if (unitResident.unit.block.condominiumId !== req.params.condominiumId) {
+    throw createError('Unit not found in this condominium', 404);
+  }
+
+  const wasPrimary = unitResident.isPrimary;
 
   // Remove the assignment
   await prisma.unitResident.delete({
@@ -1160,7 +1715,7 @@ router.delete('/:condominiumId/units/:unitId/residents/:residentId', requireCond
   // If this was the primary resident, update legacy field and promote another resident
   if (wasPrimary) {
     const remainingResidents = await prisma.unitResident.findMany({
-      where: { unitId: req.params.unitId },
+      where: { unitId: req.params.unitId, endDate: null },
       orderBy: { createdAt: 'asc' },
     });
 
@@ -1188,8 +1743,10 @@ router.delete('/:condominiumId/units/:unitId/residents/:residentId', requireCond
   res.status(204).send();
 }));
 
-// Get residents for a specific unit
+// Get residents for a specific unit (former residents with ?includePast=true)
 router.get('/:condominiumId/units/:unitId/residents', requireCondominiumAccess(), asyncHandler(async (req, res) => {
+  const includePast = req.query.includePast === 'true';
+
   // Verify unit exists and belongs to condominium
   const unit = await prisma.unit.findFirst({
     where: {
@@ -1200,6 +1757,7 @@ router.get('/:condominiumId/units/:unitId/residents', requireCondominiumAccess()
     },
     include: {
       unitResidents: {
+        where: includePast ? undefined : { endDate: null },
         include: {
           resident: {
             select: {
@@ -1226,11 +1784,491 @@ router.get('/:condominiumId/units/:unitId/residents', requireCondominiumAccess()
 
   const residents = unit.unitResidents.map(ur => ({
     ...ur.resident,
-    isPrimary: ur.isPrimary,
+    isPrimary: ur.isPrimary && !ur.endDate,
     assignedAt: ur.createdAt,
+    startDate: ur.startDate,
+    endDate: ur.endDate,
+    startReading: ur.startReading,
+    endReading: ur.endReading,
   }));
 
   res.json({ residents });
 }));
 
+// ============== UTILITY RATES ==============
+
+// Validates tiers, effective dates and the optional period of a rate setting
+const checkRateSetting = async (
+  condominiumId: string,
+  data: z.infer<typeof updateRateSettingSchema>,
+  existing?: { effectiveFrom: Date; effectiveTo: Date | null; utilityType: MeterType }
+) => {
+  if (data.tiers) {
+    const sortedTiers = [...data.tiers].sort((a, b) => a.from - b.from) as TariffTier[];
+    const validation = validateTariffTiers(sortedTiers);
+    if (!validation.isValid) {
+      throw createError(`Invalid tariff tiers: ${validation.errors.join(', ')}`, 400);
+    }
+  }
+
+  const effectiveFrom = data.effectiveFrom ? new Date(data.effectiveFrom) : existing?.effectiveFrom;
+  const effectiveTo = data.effectiveTo !== undefined
+    ? (data.effectiveTo ? new Date(data.effectiveTo) : null)
+    : existing?.effectiveTo;
+
+  if (effectiveFrom && effectiveTo && effectiveTo <= effectiveFrom) {
+    throw createError('Effective to date must be after effective from date', 400);
+  }
+
+  if (data.periodId) {
+    const period = await prisma.period.findFirst({
+      where: {
+        id: data.periodId,
+        condominiumId,
+      },
+    });
+
+    if (!period) {
+      throw createError('Period not found in this condominium', 404);
+    }
+
+    const utilityType = data.utilityType ?? existing?.utilityType ?? MeterType.WATER;
+    if (period.utilityType !== utilityType) {
+      throw createError(`Rate is for ${utilityType.toLowerCase()}, but the period bills ${period.utilityType.toLowerCase()}`, 400);
+    }
+  }
+};
+
+// Get utility rates
+router.get('/:id/rates', requireCondominiumAccess(), asyncHandler(async (req, res) => {
+  const periodId = req.query.periodId as string;
+  const utilityType = req.query.utilityType as MeterType;
+
+  const where: any = {
+    condominiumId: req.params.id,
+  };
+
+  if (periodId) {
+    where.periodId = periodId;
+  }
+
+  if (utilityType) {
+    where.utilityType = utilityType;
+  }
+
+  const rates = await prisma.rateSetting.findMany({
+    where,
+    include: {
+      period: {
+        select: {
+          id: true,
+          startDate: true,
+          endDate: true,
+          status: true,
+        },
+      },
+    },
+    orderBy: [
+      { effectiveFrom: 'desc' },
+      { createdAt: 'desc' },
+    ],
+  });
+
+  res.json({ rates });
+}));
+
+// Create utility rate
+router.post('/:id/rates', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = rateSettingSchema.parse(req.body);
+
+  await checkRateSetting(req.params.id, data);
+
+  const rate = await prisma.rateSetting.create({
+    data: {
+      condominiumId: req.params.id,
+      periodId: data.periodId ?? null,
+      utilityType: data.utilityType,
+      tiers: [...data.tiers].sort((a, b) => a.from - b.from),
+      commonAreaRate: data.commonAreaRate,
+      fixedCharge: data.fixedCharge,
+      minimumConsumption: data.minimumConsumption,
+      effectiveFrom: new Date(data.effectiveFrom),
+      effectiveTo: data.effectiveTo ? new Date(data.effectiveTo) : null,
+    },
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CREATE',
+      entity: 'RateSetting',
+      entityId: rate.id,
+      newData: rate,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(201).json(rate);
+}));
+
+// Update utility rate
+router.put('/:condominiumId/rates/:rateId', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = updateRateSettingSchema.parse(req.body);
+
+  const existingRate = await prisma.rateSetting.findFirst({
+    where: {
+      id: req.params.rateId,
+      condominiumId: req.params.condominiumId,
+    },
+  });
+
+  if (!existingRate) {
+    throw createError('Rate not found in this condominium', 404);
+  }
+
+  await checkRateSetting(req.params.condominiumId, data, existingRate);
+
+  const updateData: any = {};
+
+  if (data.periodId !== undefined) updateData.periodId = data.periodId;
+  if (data.utilityType) updateData.utilityType = data.utilityType;
+  if (data.tiers) updateData.tiers = [...data.tiers].sort((a, b) => a.from - b.from);
+  if (data.commonAreaRate !== undefined) updateData.commonAreaRate = data.commonAreaRate;
+  if (data.fixedCharge !== undefined) updateData.fixedCharge = data.fixedCharge;
+  if (data.minimumConsumption !== undefined) updateData.minimumConsumption = data.minimumConsumption;
+  if (data.effectiveFrom) updateData.effectiveFrom = new Date(data.effectiveFrom);
+  if (data.effectiveTo !== undefined) updateData.effectiveTo = data.effectiveTo ? new Date(data.effectiveTo) : null;
+
+  const rate = await prisma.rateSetting.update({
+    where: { id: req.params.rateId },
+    data: updateData,
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'UPDATE',
+      entity: 'RateSetting',
+      entityId: rate.id,
+      oldData: existingRate,
+      newData: rate,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(rate);
+}));
+
+// Delete utility rate
+router.delete('/:condominiumId/rates/:rateId', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const existingRate = await prisma.rateSetting.findFirst({
+    where: {
+      id: req.params.rateId,
+      condominiumId: req.params.condominiumId,
+    },
+  });
+
+  if (!existingRate) {
+    throw createError('Rate not found in this condominium', 404);
+  }
+
+  await prisma.rateSetting.delete({
+    where: { id: req.params.rateId },
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'DELETE',
+      entity: 'RateSetting',
+      entityId: existingRate.id,
+      oldData: existingRate,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(204).send();
+}));
+
+// ============== LATE FEES ==============
+
+// Get the late fee rule of the condominium
+router.get('/:id/late-fee-rule', requireCondominiumAccess(), asyncHandler(async (req, res) => {
+  const rule = await prisma.lateFeeRule.findUnique({
+    where: { condominiumId: req.params.id },
+  });
+
+  if (!rule) {
+    throw createError('No late fee rule configured for this condominium', 404);
+  }
+
+  res.json(rule);
+}));
+
+// Create or replace the late fee rule of the condominium
+router.put('/:id/late-fee-rule', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = lateFeeRuleSchema.parse(req.body);
+
+  const existingRule = await prisma.lateFeeRule.findUnique({
+    where: { condominiumId: req.params.id },
+  });
+
+  const ruleData = {
+    flatFee: data.flatFee,
+    interestRate: data.interestRate,
+    interestPeriod: data.interestPeriod,
+    graceDays: data.graceDays,
+    maxPenalty: data.maxPenalty ?? null,
+    isActive: data.isActive,
+  };
+
+  const rule = await prisma.lateFeeRule.upsert({
+    where: { condominiumId: req.params.id },
+    create: { condominiumId: req.params.id, ...ruleData },
+    update: ruleData,
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: existingRule ? 'UPDATE' : 'CREATE',
+      entity: 'LateFeeRule',
+      entityId: rule.id,
+      oldData: existingRule ?? undefined,
+      newData: rule,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(rule);
+}));
+
+// ============== EXTRA CHARGES ==============
+
+// Validates the scope (block/unit) and the period range of an extra charge
+const checkExtraCharge = async (
+  condominiumId: string,
+  charge: z.infer<typeof updateExtraChargeSchema>
+) => {
+  if (charge.type === ExtraChargeType.PERCENTAGE && charge.amount?.gt(100)) {
+    throw createError('Percentage charges cannot exceed 100%', 400);
+  }
+
+  if (charge.blockId) {
+    const block = await prisma.block.findFirst({
+      where: { id: charge.blockId, condominiumId },
+    });
+
+    if (!block) {
+      throw createError('Block not found in this condominium', 404);
+    }
+  }
+
+  if (charge.unitId) {
+    const unit = await prisma.unit.findFirst({
+      where: { id: charge.unitId, block: { condominiumId } },
+    });
+
+    if (!unit) {
+      throw createError('Unit not found in this condominium', 404);
+    }
+
+    if (charge.blockId && unit.blockId !== charge.blockId) {
+      throw createError('Unit does not belong to the selected block', 400);
+    }
+  }
+
+  const startPeriod = await prisma.period.findFirst({
+    where: { id: charge.startPeriodId, condominiumId },
+  });
+
+  if (!startPeriod) {
+    throw createError('Start period not found in this condominium', 404);
+  }
+
+  if (charge.endPeriodId) {
+    if (!charge.isRecurring) {
+      throw createError('Only recurring charges can have an end period', 400);
+    }
+
+    const endPeriod = await prisma.period.findFirst({
+      where: { id: charge.endPeriodId, condominiumId },
+    });
+
+    if (!endPeriod) {
+      throw createError('End period not found in this condominium', 404);
+    }
+
+    if (endPeriod.utilityType !== startPeriod.utilityType) {
+      throw createError('End period must bill the same utility as the start period', 400);
+    }
+
+    if (endPeriod.startDate < startPeriod.startDate) {
+      throw createError('End period must not be before start period', 400);
+    }
+  }
+};
+
+// Get extra charges
+router.get('/:id/extra-charges', requireCondominiumAccess(), asyncHandler(async (req, res) => {
+  const isActive = req.query.isActive as string;
+  const unitId = req.query.unitId as string;
+  const blockId = req.query.blockId as string;
+
+  const where: any = {
+    condominiumId: req.params.id,
+  };
+
+  if (isActive !== undefined) {
+    where.isActive = isActive === 'true';
+  }
+
+  if (unitId) {
+    where.unitId = unitId;
+  }
+
+  if (blockId) {
+    where.blockId = blockId;
+  }
+
+  const extraCharges = await prisma.extraCharge.findMany({
+    where,
+    include: {
+      block: {
+        select: { id: true, name: true },
+      },
+      unit: {
+        select: { id: true, name: true },
+      },
+      startPeriod: {
+        select: { id: true, startDate: true, status: true },
+      },
+      endPeriod: {
+        select: { id: true, startDate: true, status: true },
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  res.json({ extraCharges });
+}));
+
+// Create extra charge
+router.post('/:id/extra-charges', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = extraChargeSchema.parse(req.body);
+
+  await checkExtraCharge(req.params.id, data);
+
+  const extraCharge = await prisma.extraCharge.create({
+    data: {
+      condominiumId: req.params.id,
+      description: data.description,
+      type: data.type,
+      amount: data.amount,
+      blockId: data.blockId ?? null,
+      unitId: data.unitId ?? null,
+      isRecurring: data.isRecurring,
+      startPeriodId: data.startPeriodId,
+      endPeriodId: data.endPeriodId ?? null,
+      isActive: data.isActive ?? true,
+    },
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CREATE',
+      entity: 'ExtraCharge',
+      entityId: extraCharge.id,
+      newData: extraCharge,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(201).json(extraCharge);
+}));
+
+// Update extra charge
+router.put('/:condominiumId/extra-charges/:chargeId', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const data = updateExtraChargeSchema.parse(req.body);
+
+  const existingCharge = await prisma.extraCharge.findFirst({
+    where: {
+      id: req.params.chargeId,
+      condominiumId: req.params.condominiumId,
+    },
+  });
+
+  if (!existingCharge) {
+    throw createError('Extra charge not found in this condominium', 404);
+  }
+
+  const merged = { ...existingCharge, ...data };
+  await checkExtraCharge(req.params.condominiumId, merged);
+
+  const extraCharge = await prisma.extraCharge.update({
+    where: { id: req.params.chargeId },
+    data,
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'UPDATE',
+      entity: 'ExtraCharge',
+      entityId: extraCharge.id,
+      oldData: existingCharge,
+      newData: extraCharge,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(extraCharge);
+}));
+
+// Delete extra charge
+router.delete('/:condominiumId/extra-charges/:chargeId', requireCondominiumAccess([UserRole.ADMIN]), asyncHandler(async (req, res) => {
+  const existingCharge = await prisma.extraCharge.findFirst({
+    where: {
+      id: req.params.chargeId,
+      condominiumId: req.params.condominiumId,
+    },
+  });
+
+  if (!existingCharge) {
+    throw createError('Extra charge not found in this condominium', 404);
+  }
+
+  await prisma.extraCharge.delete({
+    where: { id: req.params.chargeId },
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'DELETE',
+      entity: 'ExtraCharge',
+      entityId: existingCharge.id,
+      oldData: existingCharge,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(204).send();
+}));
+
 export default router;
\ No newline at end of file
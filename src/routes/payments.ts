@@ -0,0 +1,416 @@
+import express from 'express';
+import { z } from 'zod';
+import { UserRole, PaymentMethod, BankName } from '@prisma/client';
+import { prisma } from '../index';
+import { createError, asyncHandler } from '../middleware/errorHandler';
+import { authenticate, requireCondominiumAccess } from '../middleware/auth';
+import { PaymentService } from '../services/paymentService';
+import { ReconciliationService } from '../services/reconciliationService';
+import { moneySchema } from '../utils/money';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+const paymentService = new PaymentService(prisma);
+const reconciliationService = new ReconciliationService(prisma);
+
+// Validation schemas
+const createPaymentSchema = z.object({
+  unitId: z.string().min(1, 'Unit ID is required'),
+  amount: moneySchema.refine(value => value.gt(0), 'Amount must be positive'),
+  method: z.nativeEnum(PaymentMethod),
+  reference: z.string().trim().min(1).optional(),
+  paidAt: z.string().datetime('Invalid date').optional(),
+  notes: z.string().optional(),
+  allocations: z.array(z.object({
+    billId: z.string().min(1, 'Bill ID is required'),
+    amount: moneySchema.refine(value => value.gt(0), 'Allocated amount must be positive'),
+  })).min(1, 'At least one allocation is required')
+    .refine(
+      allocations => new Set(allocations.map(allocation => allocation.billId)).size === allocations.length,
+      'Each bill can only be allocated once'
+    )
+    .optional(),
+});
+
+const importStatementSchema = z.object({
+  csv: z.string().min(1, 'CSV content is required'),
+  bank: z.nativeEnum(BankName).optional(),
+  fileName: z.string().optional(),
+  dateWindowDays: z.number().int().min(0).max(365).optional(),
+});
+
+const confirmMovementSchema = z.object({
+  billId: z.string().min(1).optional(),
+  unitId: z.string().min(1).optional(),
+});
+
+// Condominium of a unit, checking the user's access to it
+const getUnitCondominiumId = async (req: express.Request, unitId: string, adminOnly: boolean) => {
+  const unit = await prisma.unit.findUnique({
+    where: { id: unitId },
+    select: { block: { select: { condominiumId: true } } },
+  });
+
+  if (!unit) {
+    throw createError('Unit not found', 404);
+  }
+
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === unit.block.condominiumId &&
+      (!adminOnly || access.role === UserRole.ADMIN)
+    );
+
+    if (!hasAccess) {
+      throw createError(
+        adminOnly ? 'Access denied. Only administrators can manage payments.' : 'Access denied to this unit',
+        403
+      );
+    }
+  }
+
+  return unit.block.condominiumId;
+};
+
+// Bank movement, checking the user is an administrator of its condominium
+const findBankMovement = async (req: express.Request, movementId: string) => {
+  const movement = await prisma.bankMovement.findUnique({
+    where: { id: movementId },
+  });
+
+  if (!movement) {
+    throw createError('Bank movement not found', 404);
+  }
+
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === movement.condominiumId &&
+      access.role === UserRole.ADMIN
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied. Only administrators can reconcile bank movements.', 403);
+    }
+  }
+
+  return movement;
+};
+
+const findPayment = async (paymentId: string) => {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+  });
+
+  if (!payment) {
+    throw createError('Payment not found', 404);
+  }
+
+  return payment;
+};
+
+// ============== PAYMENTS ==============
+
+// Record a payment of a unit, applied to the given bills or to its oldest unpaid bills
+router.post('/', asyncHandler(async (req, res) => {
+  const data = createPaymentSchema.parse(req.body);
+
+  await getUnitCondominiumId(req, data.unitId, true);
+
+  let payment;
+  try {
+    payment = await paymentService.recordPayment({
+      unitId: data.unitId,
+      amount: data.amount,
+      method: data.method,
+      reference: data.reference,
+      paidAt: data.paidAt ? new Date(data.paidAt) : new Date(),
+      notes: data.notes,
+      allocations: data.allocations?.map(allocation => ({ billId: allocation.billId, amount: allocation.amount })),
+    }, req.user!.id);
+  } catch (error) {
+    throw createError(`Recording payment failed: ${error.message}`, 400);
+  }
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CREATE',
+      entity: 'Payment',
+      entityId: payment.id,
+      newData: {
+        unitId: payment.unitId,
+        amount: payment.amount,
+        method: payment.method,
+        reference: payment.reference,
+        paidAt: payment.paidAt,
+        allocations: payment.allocations.map(allocation => ({ billId: allocation.billId, amount: allocation.amount })),
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(201).json(payment);
+}));
+
+// Get payments of a unit, most recent first
+router.get('/unit/:unitId', asyncHandler(async (req, res) => {
+  await getUnitCondominiumId(req, req.params.unitId, false);
+
+  const payments = await prisma.payment.findMany({
+    where: { unitId: req.params.unitId },
+    include: {
+      allocations: {
+        select: { billId: true, amount: true },
+      },
+      recordedBy: { select: { id: true, name: true } },
+    },
+    orderBy: { paidAt: 'desc' },
+  });
+
+  res.json(payments);
+}));
+
+// Get a single payment with the bills it was applied to
+router.get('/:paymentId', asyncHandler(async (req, res) => {
+  const payment = await findPayment(req.params.paymentId);
+  await getUnitCondominiumId(req, payment.unitId, false);
+
+  const details = await prisma.payment.findUnique({
+    where: { id: payment.id },
+    include: {
+      allocations: {
+        include: {
+          bill: {
+            select: {
+              id: true,
+              status: true,
+              totalCost: true,
+              dueDate: true,
+              period: { select: { startDate: true, utilityType: true } },
+            },
+          },
+        },
+      },
+      recordedBy: { select: { id: true, name: true } },
+    },
+  });
+
+  res.json(details);
+}));
+
+// Apply what is left of a payment to the unit's unpaid bills, oldest first
+router.post('/:paymentId/allocate', asyncHandler(async (req, res) => {
+  const payment = await findPayment(req.params.paymentId);
+  await getUnitCondominiumId(req, payment.unitId, true);
+
+  let updated;
+  try {
+    updated = await paymentService.allocateRemaining(payment.id);
+  } catch (error) {
+    throw createError(`Allocating payment failed: ${error.message}`, 400);
+  }
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'ALLOCATE',
+      entity: 'Payment',
+      entityId: payment.id,
+      newData: {
+        allocations: updated.allocations.map(allocation => ({ billId: allocation.billId, amount: allocation.amount })),
+        unallocated: updated.unallocated,
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(updated);
+}));
+
+// Delete a payment recorded by mistake; the bills it settled are reopened
+router.delete('/:paymentId', asyncHandler(async (req, res) => {
+  const payment = await findPayment(req.params.paymentId);
+  await getUnitCondominiumId(req, payment.unitId, true);
+
+  const result = await paymentService.voidPayment(payment.id);
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'DELETE',
+      entity: 'Payment',
+      entityId: payment.id,
+      oldData: {
+        unitId: result.payment.unitId,
+        amount: result.payment.amount,
+        method: result.payment.method,
+        reference: result.payment.reference,
+        paidAt: result.payment.paidAt,
+        allocations: result.payment.allocations.map(allocation => ({ billId: allocation.billId, amount: allocation.amount })),
+      },
+      newData: { reopenedBills: result.reopenedBills },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json({
+    message: 'Payment deleted successfully',
+    reopenedBills: result.reopenedBills,
+  });
+}));
+
+// ============== BANK RECONCILIATION ==============
+
+// Import a BCP or Interbank statement CSV of the condominium account and propose a bill per deposit
+router.post('/condominium/:condominiumId/bank-imports',
+  requireCondominiumAccess([UserRole.ADMIN]),
+  asyncHandler(async (req, res) => {
+    const data = importStatementSchema.parse(req.body);
+
+    let result;
+    try {
+      result = await reconciliationService.importStatement(req.params.condominiumId, {
+        csv: data.csv,
+        bank: data.bank,
+        fileName: data.fileName,
+        dateWindowDays: data.dateWindowDays,
+      }, req.user!.id);
+    } catch (error) {
+      throw createError(`Importing bank statement failed: ${error.message}`, 400);
+    }
+
+    // Log action
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CREATE',
+        entity: 'BankStatementImport',
+        entityId: result.import.id,
+        newData: {
+          bank: result.import.bank,
+          accountNumber: result.import.accountNumber,
+          fileName: result.import.fileName,
+          movements: result.import.movements.length,
+          duplicates: result.summary.duplicates,
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      },
+    });
+
+    res.status(201).json(result);
+  })
+);
+
+// Get bank statement imports of a condominium, most recent first
+router.get('/condominium/:condominiumId/bank-imports',
+  requireCondominiumAccess([UserRole.ADMIN]),
+  asyncHandler(async (req, res) => {
+    const imports = await prisma.bankStatementImport.findMany({
+      where: { condominiumId: req.params.condominiumId },
+      include: {
+        importedBy: { select: { id: true, name: true } },
+        _count: { select: { movements: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json(imports);
+  })
+);
+
+// Get an import with its movements and proposed bills
+router.get('/bank-imports/:importId', asyncHandler(async (req, res) => {
+  const statementImport = await reconciliationService.getImport(req.params.importId);
+
+  if (!statementImport) {
+    throw createError('Bank statement import not found', 404);
+  }
+
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === statementImport.condominiumId &&
+      access.role === UserRole.ADMIN
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied. Only administrators can reconcile bank movements.', 403);
+    }
+  }
+
+  res.json(statementImport);
+}));
+
+// Record a deposit as a payment of the proposed bill, or of the given bill or unit
+router.post('/bank-movements/:movementId/confirm', asyncHandler(async (req, res) => {
+  const data = confirmMovementSchema.parse(req.body ?? {});
+  const movement = await findBankMovement(req, req.params.movementId);
+
+  let result;
+  try {
+    result = await reconciliationService.confirmMovement(movement.id, data, req.user!.id);
+  } catch (error) {
+    throw createError(`Confirming bank movement failed: ${error.message}`, 400);
+  }
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CONFIRM',
+      entity: 'BankMovement',
+      entityId: movement.id,
+      oldData: { status: movement.status, billId: movement.billId, unitId: movement.unitId },
+      newData: {
+        status: result.movement.status,
+        billId: result.movement.billId,
+        unitId: result.movement.unitId,
+        paymentId: result.payment.id,
+        amount: result.payment.amount,
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(result);
+}));
+
+// Mark a movement as not being a resident payment
+router.post('/bank-movements/:movementId/ignore', asyncHandler(async (req, res) => {
+  const movement = await findBankMovement(req, req.params.movementId);
+
+  let updated;
+  try {
+    updated = await reconciliationService.ignoreMovement(movement.id);
+  } catch (error) {
+    throw createError(`Ignoring bank movement failed: ${error.message}`, 400);
+  }
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'IGNORE',
+      entity: 'BankMovement',
+      entityId: movement.id,
+      oldData: { status: movement.status },
+      newData: { status: updated.status },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(updated);
+}));
+
+export default router;
@@ -1,18 +1,34 @@
 import express from 'express';
 import { z } from 'zod';
-import { UserRole, PeriodStatus } from '@prisma/client';
+import { Prisma, UserRole, PeriodStatus, MeterType, ReadingAnomalyType, ReceiptLineItemType, ReceiptDistribution } from '@prisma/client';
 import { prisma } from '../index';
 import { createError, asyncHandler } from '../middleware/errorHandler';
 import { authenticate, requireCondominiumAccess } from '../middleware/auth';
+import { EstimationService } from '../services/estimationService';
+import { AnomalyDetectionService, getAnomalyThresholds } from '../services/anomalyDetectionService';
+import { ForecastService } from '../services/forecastService';
+import { BillStatusService } from '../services/billStatusService';
+import { CalculationVersionService } from '../services/calculationVersionService';
+import { CalculationService, CalculationResult, SubmittedUnitCalculation } from '../services/calculationService';
+import { moneySchema, sumMoney } from '../utils/money';
+import { CONFIDENCE_Z_SCORES } from '../utils/forecast';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticate);
 
+const estimationService = new EstimationService(prisma);
+const anomalyDetectionService = new AnomalyDetectionService(prisma);
+const forecastService = new ForecastService(prisma);
+const billStatusService = new BillStatusService(prisma);
+const calculationVersionService = new CalculationVersionService(prisma);
+const calculationService = new CalculationService(prisma);
+
 // Validation schemas
 const createPeriodSchema = z.object({
   condominiumId: z.string().min(1, 'Condominium ID is required'),
+  utilityType: z.nativeEnum(MeterType).default(MeterType.WATER),
   startDate: z.string().datetime('Invalid start date'),
 });
 
@@ -30,21 +46,68 @@ const createReadingSchema = z.object({
 
 const updateReceiptSchema = z.object({
   totalVolume: z.number().min(0, 'Total volume must be non-negative'),
-  totalAmount: z.number().min(0, 'Total amount must be non-negative'),
+  totalAmount: moneySchema.refine(value => value.gte(0), 'Total amount must be non-negative'),
   receiptPhoto1: z.string().url().optional(),
   receiptPhoto2: z.string().url().optional(),
 });
 
+const receiptLineItemSchema = z.object({
+  type: z.nativeEnum(ReceiptLineItemType),
+  description: z.string().min(1).optional().nullable(),
+  amount: moneySchema.refine(value => value.gte(0), 'Amount must be non-negative'),
+  distribution: z.nativeEnum(ReceiptDistribution).default(ReceiptDistribution.TARIFF),
+});
+
+const createItemizedReceiptSchema = z.object({
+  supplier: z.string().min(1).optional().nullable(),
+  receiptNumber: z.string().min(1).optional().nullable(),
+  issueDate: z.string().datetime('Invalid issue date').optional().nullable(),
+  totalVolume: z.number().min(0, 'Total volume must be non-negative'),
+  photo1: z.string().url().optional().nullable(),
+  photo2: z.string().url().optional().nullable(),
+  lineItems: z.array(receiptLineItemSchema).min(1, 'At least one line item is required'),
+});
+
+// Line items, when sent, replace the existing ones
+const updateItemizedReceiptSchema = createItemizedReceiptSchema.partial();
+
 const updatePeriodSchema = z.object({
   startDate: z.string().datetime('Invalid start date').optional(),
   endDate: z.string().datetime('Invalid end date').optional(),
   status: z.enum(['OPEN', 'PENDING_RECEIPT', 'CALCULATING', 'CLOSED']).optional(),
   totalVolume: z.number().min(0, 'Total volume must be non-negative').optional(),
-  totalAmount: z.number().min(0, 'Total amount must be non-negative').optional(),
+  totalAmount: moneySchema.refine(value => value.gte(0), 'Total amount must be non-negative').optional(),
   receiptPhoto1: z.string().url().optional(),
   receiptPhoto2: z.string().url().optional(),
 });
 
+const estimateReadingsSchema = z.object({
+  lookbackPeriods: z.number().int().min(1).max(24).default(3),
+});
+
+const saveCalculationsSchema = z.object({
+  unitCalculations: z.array(z.object({
+    unitId: z.string().min(1, 'Unit ID is required'),
+    consumption: z.number().min(0).optional(),
+    individualAmount: moneySchema.optional(),
+    commonAreasAmount: moneySchema.optional(),
+    totalAmount: moneySchema.optional(),
+  })).optional(),
+  tolerance: moneySchema.refine(value => value.gte(0), 'Tolerance must be non-negative').default(0.01),
+});
+
+const forecastSchema = z.object({
+  lookbackPeriods: z.coerce.number().int().min(1).max(24).default(6),
+  confidence: z.coerce.number()
+    .refine(value => value in CONFIDENCE_Z_SCORES, `Confidence must be one of ${Object.keys(CONFIDENCE_Z_SCORES).join(', ')}`)
+    .default(95),
+});
+
+const diffVersionsSchema = z.object({
+  from: z.coerce.number().int().min(1, 'From version must be a positive integer'),
+  to: z.coerce.number().int().min(1, 'To version must be a positive integer'),
+});
+
 const validateReadingSchema = z.object({
   isValidated: z.boolean(),
   isAnomalous: z.boolean(),
@@ -80,16 +143,17 @@ router.post('/', asyncHandler(async (req, res) => {
     }
   }
 
-  // Check if condominium has an open period
+  // Check if condominium has an open period for this utility; other utilities run their own cycles
   const openPeriod = await prisma.period.findFirst({
     where: {
       condominiumId: data.condominiumId,
+      utilityType: data.utilityType,
       status: PeriodStatus.OPEN,
     },
   });
 
   if (openPeriod) {
-    throw createError('Condominium already has an open period', 400);
+    throw createError(`Condominium already has an open ${data.utilityType.toLowerCase()} period`, 400);
   }
 
   // Verify condominium exists and is active
@@ -104,6 +168,7 @@ router.post('/', asyncHandler(async (req, res) => {
   const period = await prisma.period.create({
     data: {
       condominiumId: data.condominiumId,
+      utilityType: data.utilityType,
       startDate: new Date(data.startDate),
       status: PeriodStatus.OPEN,
     },
@@ -141,6 +206,7 @@ router.get('/condominium/:condominiumId',
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
     const status = req.query.status as PeriodStatus;
+    const utilityType = req.query.utilityType as MeterType;
 
     const where: any = {
       condominiumId: req.params.condominiumId,
@@ -150,6 +216,10 @@ router.get('/condominium/:condominiumId',
       where.status = status;
     }
 
+    if (utilityType) {
+      where.utilityType = utilityType;
+    }
+
     const [periods, total] = await Promise.all([
       prisma.period.findMany({
         where,
@@ -278,6 +348,16 @@ router.put('/:id', asyncHandler(async (req, res) => {
     throw createError('Only open periods can be updated', 400);
   }
 
+  if (data.totalVolume !== undefined || data.totalAmount !== undefined) {
+    const itemizedReceipts = await prisma.receipt.count({
+      where: { periodId: req.params.id },
+    });
+
+    if (itemizedReceipts > 0) {
+      throw createError('Period totals come from its itemized receipts; update those instead', 400);
+    }
+  }
+
   // Prepare update data
   const updateData: any = {
     updatedAt: new Date(),
@@ -368,6 +448,15 @@ router.delete('/:id', asyncHandler(async (req, res) => {
     }
   }
 
+  // Charges starting here may still apply to later periods; they must be moved or deleted first
+  const startingCharges = await prisma.extraCharge.count({
+    where: { startPeriodId: req.params.id },
+  });
+
+  if (startingCharges > 0) {
+    throw createError('Extra charges start in this period; move their start period or delete them first', 400);
+  }
+
   // Temporarily allow deletion of any period for testing
   // TODO: Restore restriction to OPEN periods only in production
   // if (period.status !== PeriodStatus.OPEN) {
@@ -488,22 +577,29 @@ router.put('/:id/close', asyncHandler(async (req, res) => {
     throw createError(`Cannot close period: ${unvalidatedReadings} readings are not validated`, 400);
   }
 
-  const updatedPeriod = await prisma.period.update({
-    where: { id: req.params.id },
-    data: {
-      status: PeriodStatus.CLOSED,
-      endDate: new Date(),
-      updatedAt: new Date(),
-    },
-    include: {
-      condominium: {
-        select: {
-          id: true,
-          name: true,
-          address: true,
+  // The payment term of the bills starts with the close
+  const updatedPeriod = await prisma.$transaction(async (tx) => {
+    const closed = await tx.period.update({
+      where: { id: req.params.id },
+      data: {
+        status: PeriodStatus.CLOSED,
+        endDate: new Date(),
+        updatedAt: new Date(),
+      },
+      include: {
+        condominium: {
+          select: {
+            id: true,
+            name: true,
+            address: true,
+          },
         },
       },
-    },
+    });
+
+    const billsDueDate = await billStatusService.assignDueDates(closed.id, tx);
+
+    return { ...closed, billsDueDate };
   });
 
   // Log action (exclude readings array to avoid serialization issues)
@@ -529,6 +625,24 @@ router.put('/:id/close', asyncHandler(async (req, res) => {
   res.json(updatedPeriod);
 }));
 
+// Keeps the period totals equal to the sum of its itemized receipts
+const syncPeriodReceiptTotals = async (tx: Prisma.TransactionClient, periodId: string) => {
+  const receipts = await tx.receipt.findMany({
+    where: { periodId },
+    include: { lineItems: true },
+  });
+
+  return tx.period.update({
+    where: { id: periodId },
+    data: receipts.length > 0
+      ? {
+        totalVolume: receipts.reduce((sum, receipt) => sum + receipt.totalVolume, 0),
+        totalAmount: sumMoney(receipts.flatMap(receipt => receipt.lineItems.map(item => item.amount))),
+      }
+      : { totalVolume: null, totalAmount: null },
+  });
+};
+
 // Update period receipt info
 router.put('/:id/receipt', asyncHandler(async (req, res) => {
   const data = updateReceiptSchema.parse(req.body);
@@ -557,6 +671,14 @@ router.put('/:id/receipt', asyncHandler(async (req, res) => {
     throw createError('Period is not ready for receipt data', 400);
   }
 
+  const itemizedReceipts = await prisma.receipt.count({
+    where: { periodId: req.params.id },
+  });
+
+  if (itemizedReceipts > 0) {
+    throw createError('Period totals come from its itemized receipts; update those instead', 400);
+  }
+
   const updatedPeriod = await prisma.period.update({
     where: { id: req.params.id },
     data: {
@@ -569,6 +691,240 @@ router.put('/:id/receipt', asyncHandler(async (req, res) => {
   res.json(updatedPeriod);
 }));
 
+// ============== ITEMIZED RECEIPTS ==============
+
+// Get supplier receipts of a period with their line items
+router.get('/:periodId/receipts', asyncHandler(async (req, res) => {
+  const period = await prisma.period.findUnique({
+    where: { id: req.params.periodId },
+    select: { condominiumId: true, totalVolume: true, totalAmount: true },
+  });
+
+  if (!period) {
+    throw createError('Period not found', 404);
+  }
+
+  // Check access to condominium
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === period.condominiumId
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied to this period', 403);
+    }
+  }
+
+  const receipts = await prisma.receipt.findMany({
+    where: { periodId: req.params.periodId },
+    include: { lineItems: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  res.json({
+    receipts,
+    totalVolume: period.totalVolume,
+    totalAmount: period.totalAmount,
+  });
+}));
+
+// Add supplier receipt with line items; the period totals follow its receipts
+router.post('/:periodId/receipts', asyncHandler(async (req, res) => {
+  const data = createItemizedReceiptSchema.parse(req.body);
+
+  const period = await prisma.period.findUnique({
+    where: { id: req.params.periodId },
+  });
+
+  if (!period) {
+    throw createError('Period not found', 404);
+  }
+
+  // Check access to condominium - only ADMIN can add receipts
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === period.condominiumId &&
+      access.role === UserRole.ADMIN
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied. Only administrators can add receipts.', 403);
+    }
+  }
+
+  if (period.status === PeriodStatus.CLOSED) {
+    throw createError('Cannot add receipts to a closed period', 400);
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const receipt = await tx.receipt.create({
+      data: {
+        periodId: req.params.periodId,
+        supplier: data.supplier,
+        receiptNumber: data.receiptNumber,
+        issueDate: data.issueDate ? new Date(data.issueDate) : null,
+        totalVolume: data.totalVolume,
+        photo1: data.photo1,
+        photo2: data.photo2,
+        lineItems: { create: data.lineItems as Prisma.ReceiptLineItemCreateWithoutReceiptInput[] },
+      },
+      include: { lineItems: true },
+    });
+
+    await syncPeriodReceiptTotals(tx, req.params.periodId);
+
+    // As with the single receipt, entering it makes the period ready for calculation
+    const updatedPeriod = period.status === PeriodStatus.PENDING_RECEIPT
+      ? await tx.period.update({
+        where: { id: req.params.periodId },
+        data: { status: PeriodStatus.CALCULATING },
+      })
+      : await tx.period.findUnique({ where: { id: req.params.periodId } });
+
+    return { receipt, period: updatedPeriod };
+  });
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CREATE',
+      entity: 'Receipt',
+      entityId: result.receipt.id,
+      newData: result.receipt,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(201).json(result);
+}));
+
+// Update supplier receipt
+router.put('/:periodId/receipts/:receiptId', asyncHandler(async (req, res) => {
+  const data = updateItemizedReceiptSchema.parse(req.body);
+
+  const receipt = await prisma.receipt.findFirst({
+    where: { id: req.params.receiptId, periodId: req.params.periodId },
+    include: { lineItems: true, period: true },
+  });
+
+  if (!receipt) {
+    throw createError('Receipt not found in this period', 404);
+  }
+
+  // Check access to condominium - only ADMIN can update receipts
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === receipt.period.condominiumId &&
+      access.role === UserRole.ADMIN
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied. Only administrators can update receipts.', 403);
+    }
+  }
+
+  if (receipt.period.status === PeriodStatus.CLOSED) {
+    throw createError('Cannot update receipts of a closed period', 400);
+  }
+
+  const { lineItems, issueDate, ...receiptData } = data;
+
+  const result = await prisma.$transaction(async (tx) => {
+    if (lineItems) {
+      await tx.receiptLineItem.deleteMany({
+        where: { receiptId: receipt.id },
+      });
+    }
+
+    const updatedReceipt = await tx.receipt.update({
+      where: { id: receipt.id },
+      data: {
+        ...receiptData,
+        ...(issueDate !== undefined && { issueDate: issueDate ? new Date(issueDate) : null }),
+        ...(lineItems && { lineItems: { create: lineItems as Prisma.ReceiptLineItemCreateWithoutReceiptInput[] } }),
+      },
+      include: { lineItems: true },
+    });
+
+    const updatedPeriod = await syncPeriodReceiptTotals(tx, req.params.periodId);
+
+    return { receipt: updatedReceipt, period: updatedPeriod };
+  });
+
+  const { period, ...oldReceipt } = receipt;
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'UPDATE',
+      entity: 'Receipt',
+      entityId: receipt.id,
+      oldData: oldReceipt,
+      newData: result.receipt,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json(result);
+}));
+
+// Delete supplier receipt
+router.delete('/:periodId/receipts/:receiptId', asyncHandler(async (req, res) => {
+  const receipt = await prisma.receipt.findFirst({
+    where: { id: req.params.receiptId, periodId: req.params.periodId },
+    include: { lineItems: true, period: true },
+  });
+
+  if (!receipt) {
+    throw createError('Receipt not found in this period', 404);
+  }
+
+  // Check access to condominium - only ADMIN can delete receipts
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === receipt.period.condominiumId &&
+      access.role === UserRole.ADMIN
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied. Only administrators can delete receipts.', 403);
+    }
+  }
+
+  if (receipt.period.status === PeriodStatus.CLOSED) {
+    throw createError('Cannot delete receipts of a closed period', 400);
+  }
+
+  const updatedPeriod = await prisma.$transaction(async (tx) => {
+    await tx.receipt.delete({
+      where: { id: receipt.id },
+    });
+
+    return syncPeriodReceiptTotals(tx, req.params.periodId);
+  });
+
+  const { period, ...oldReceipt } = receipt;
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'DELETE',
+      entity: 'Receipt',
+      entityId: receipt.id,
+      oldData: oldReceipt,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json({ message: 'Receipt deleted successfully', period: updatedPeriod });
+}));
+
 // ============== READINGS MANAGEMENT ==============
 
 // Create reading
@@ -582,6 +938,9 @@ router.post('/:periodId/readings', asyncHandler(async (req, res) => {
         select: {
           id: true,
           name: true,
+          anomalyZScoreThreshold: true,
+          anomalyPercentThreshold: true,
+          anomalyHistoryPeriods: true,
         },
       },
     },
@@ -607,15 +966,14 @@ router.post('/:periodId/readings', asyncHandler(async (req, res) => {
     throw createError('Period is not open for new readings', 400);
   }
 
-  // Verify meter exists and belongs to the condominium
+  // Verify meter exists and belongs to the condominium (unit or common-area meter)
   const meter = await prisma.meter.findFirst({
     where: {
       id: data.meterId,
-      unit: {
-        block: {
-          condominiumId: period.condominiumId,
-        },
-      },
+      OR: [
+        { unit: { block: { condominiumId: period.condominiumId } } },
+        { condominiumId: period.condominiumId },
+      ],
     },
     include: {
       unit: {
@@ -634,6 +992,10 @@ router.post('/:periodId/readings', asyncHandler(async (req, res) => {
     throw createError('Meter not found in this condominium', 404);
   }
 
+  if (meter.type !== period.utilityType) {
+    throw createError(`Meter is a ${meter.type.toLowerCase()} meter, but this is a ${period.utilityType.toLowerCase()} period`, 400);
+  }
+
   // Check if reading already exists for this meter and period
   const existingReading = await prisma.reading.findUnique({
     where: {
@@ -644,29 +1006,40 @@ router.post('/:periodId/readings', asyncHandler(async (req, res) => {
     },
   });
 
-  if (existingReading) {
+  // An estimated reading is replaced by the real one
+  if (existingReading && !existingReading.isEstimated) {
     throw createError('Reading already exists for this meter in this period', 400);
   }
 
-  // Get previous reading for validation
-  const previousReading = await prisma.reading.findFirst({
-    where: {
-      meterId: data.meterId,
-      period: {
-        condominiumId: period.condominiumId,
-        status: PeriodStatus.CLOSED,
-      },
-    },
-    orderBy: { createdAt: 'desc' },
-  });
+  if (existingReading) {
+    await prisma.reading.delete({
+      where: { id: existingReading.id },
+    });
 
-  // Validate reading value (only if not explicitly set)
-  let isAnomalous = data.isAnomalous ?? false;
-  if (data.isAnomalous === undefined && previousReading && data.value < previousReading.value) {
-    // Reading is lower than previous (possible meter replacement) - only auto-detect if not set
-    isAnomalous = true;
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'DELETE',
+        entity: 'Reading',
+        entityId: existingReading.id,
+        oldData: existingReading,
+        newData: { reason: 'Estimated reading replaced by real reading' },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      },
+    });
   }
 
+  // Compare consumption with the previous reading, the meter's history and the building.
+  // The reason is always stored; an explicit isAnomalous still wins.
+  const detection = await anomalyDetectionService.detect(
+    meter,
+    period,
+    data.value,
+    getAnomalyThresholds(period.condominium)
+  );
+  const isAnomalous = data.isAnomalous ?? detection.isAnomalous;
+
   // Default validation status (auto-validate if not specified)
   const isValidated = data.isValidated ?? true;
 
@@ -683,6 +1056,8 @@ router.post('/:periodId/readings', asyncHandler(async (req, res) => {
       userId: req.user!.id,
       isValidated,
       isAnomalous,
+      anomalyType: detection.anomalyType,
+      anomalyDetails: detection.details as any,
     },
     include: {
       meter: {
@@ -746,10 +1121,21 @@ router.put('/:periodId/readings/:readingId', asyncHandler(async (req, res) => {
   const reading = await prisma.reading.findUnique({
     where: { id: req.params.readingId },
     include: {
+      meter: true,
       period: {
         select: {
+          id: true,
           condominiumId: true,
+          utilityType: true,
+          startDate: true,
           status: true,
+          condominium: {
+            select: {
+              anomalyZScoreThreshold: true,
+              anomalyPercentThreshold: true,
+              anomalyHistoryPeriods: true,
+            },
+          },
         },
       },
     },
@@ -781,9 +1167,26 @@ router.put('/:periodId/readings/:readingId', asyncHandler(async (req, res) => {
     throw createError('Cannot update readings in a closed period', 400);
   }
 
+  // A corrected value is checked again
+  const detection = data.value !== reading.value
+    ? await anomalyDetectionService.detect(
+      reading.meter,
+      reading.period,
+      data.value,
+      getAnomalyThresholds(reading.period.condominium)
+    )
+    : null;
+
   const updatedReading = await prisma.reading.update({
     where: { id: req.params.readingId },
-    data,
+    data: {
+      ...data,
+      ...(detection && {
+        isAnomalous: data.isAnomalous ?? detection.isAnomalous,
+        anomalyType: detection.anomalyType,
+        anomalyDetails: detection.details as any,
+      }),
+    },
     include: {
       meter: {
         select: {
@@ -837,6 +1240,8 @@ router.get('/:periodId/readings', asyncHandler(async (req, res) => {
   const limit = parseInt(req.query.limit as string) || 50;
   const isValidated = req.query.isValidated as string;
   const isAnomalous = req.query.isAnomalous as string;
+  const isEstimated = req.query.isEstimated as string;
+  const anomalyType = req.query.anomalyType as string;
 
   const where: any = {
     periodId: req.params.periodId,
@@ -850,6 +1255,17 @@ router.get('/:periodId/readings', asyncHandler(async (req, res) => {
     where.isAnomalous = isAnomalous === 'true';
   }
 
+  if (isEstimated !== undefined) {
+    where.isEstimated = isEstimated === 'true';
+  }
+
+  if (anomalyType !== undefined) {
+    if (!Object.values(ReadingAnomalyType).includes(anomalyType as ReadingAnomalyType)) {
+      throw createError(`Invalid anomaly type. Use one of: ${Object.values(ReadingAnomalyType).join(', ')}`, 400);
+    }
+    where.anomalyType = anomalyType;
+  }
+
   const [readings, total] = await Promise.all([
     prisma.reading.findMany({
       where,
@@ -937,7 +1353,9 @@ router.get('/:periodId/readings', asyncHandler(async (req, res) => {
       notes: reading.notes,
       isValidated: reading.isValidated,
       isAnomalous: reading.isAnomalous,
+      isEstimated: reading.isEstimated,
       anomalyType: reading.anomalyType,
+      anomalyDetails: reading.anomalyDetails,
       ocrValue: reading.ocrValue,
       ocrConfidence: reading.ocrConfidence,
       createdAt: reading.createdAt,
@@ -965,6 +1383,8 @@ router.get('/:periodId/readings', asyncHandler(async (req, res) => {
     if (reading.meter) {
       result.meter = {
         id: reading.meter.id,
+        name: reading.meter.name,
+        isCommonArea: !reading.meter.unitId,
         serialNumber: reading.meter.serialNumber,
         installDate: reading.meter.installDate,
         status: reading.meter.status,
@@ -985,6 +1405,58 @@ router.get('/:periodId/readings', asyncHandler(async (req, res) => {
   });
 }));
 
+// Estimate missing readings from each meter's average consumption
+router.post('/:periodId/readings/estimate', asyncHandler(async (req, res) => {
+  const { lookbackPeriods } = estimateReadingsSchema.parse(req.body ?? {});
+
+  const period = await prisma.period.findUnique({
+    where: { id: req.params.periodId },
+    select: { condominiumId: true },
+  });
+
+  if (!period) {
+    throw createError('Period not found', 404);
+  }
+
+  // Check access to condominium - only ADMIN can estimate readings
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === period.condominiumId &&
+      access.role === UserRole.ADMIN
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied. Only administrators can estimate readings.', 403);
+    }
+  }
+
+  let result;
+  try {
+    result = await estimationService.estimateMissingReadings(req.params.periodId, req.user!.id, lookbackPeriods);
+  } catch (error) {
+    throw createError(`Estimation failed: ${error.message}`, 400);
+  }
+
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'ESTIMATE',
+      entity: 'Reading',
+      entityId: req.params.periodId,
+      newData: {
+        lookbackPeriods,
+        estimated: result.estimated.length,
+        skipped: result.skipped.length,
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.status(201).json(result);
+}));
+
 // Validate all readings in period (bulk validation)
 router.put('/:periodId/readings/validate-all', asyncHandler(async (req, res) => {
   const period = await prisma.period.findUnique({
@@ -1075,7 +1547,7 @@ router.put('/:periodId/readings/:readingId/validate',
 router.get('/:periodId/pending', asyncHandler(async (req, res) => {
   const period = await prisma.period.findUnique({
     where: { id: req.params.periodId },
-    select: { condominiumId: true },
+    select: { condominiumId: true, utilityType: true },
   });
 
   if (!period) {
@@ -1103,6 +1575,7 @@ router.get('/:periodId/pending', asyncHandler(async (req, res) => {
       meters: {
         some: {
           isActive: true,
+          type: period.utilityType,
           readings: {
             none: {
               periodId: req.params.periodId,
@@ -1124,7 +1597,7 @@ router.get('/:periodId/pending', asyncHandler(async (req, res) => {
         },
       },
       meters: {
-        where: { isActive: true },
+        where: { isActive: true, type: period.utilityType },
         select: {
           id: true,
           type: true,
@@ -1138,8 +1611,36 @@ router.get('/:periodId/pending', asyncHandler(async (req, res) => {
     ],
   });
 
+  // Common-area meters are read in the same period
+  const pendingCommonMeters = await prisma.meter.findMany({
+    where: {
+      condominiumId: period.condominiumId,
+      unitId: null,
+      isActive: true,
+      type: period.utilityType,
+      readings: {
+        none: {
+          periodId: req.params.periodId,
+        },
+      },
+    },
+    select: {
+      id: true,
+      name: true,
+      type: true,
+      serialNumber: true,
+      block: {
+        select: {
+          name: true,
+        },
+      },
+    },
+    orderBy: { name: 'asc' },
+  });
+
   res.json({
     pendingUnits,
+    pendingCommonMeters,
     total: pendingUnits.length,
   });
 }));
@@ -1148,7 +1649,7 @@ router.get('/:periodId/pending', asyncHandler(async (req, res) => {
 router.get('/:periodId/previous-readings', asyncHandler(async (req, res) => {
   const currentPeriod = await prisma.period.findUnique({
     where: { id: req.params.periodId },
-    select: { condominiumId: true },
+    select: { condominiumId: true, utilityType: true },
   });
 
   if (!currentPeriod) {
@@ -1166,10 +1667,11 @@ router.get('/:periodId/previous-readings', asyncHandler(async (req, res) => {
     }
   }
 
-  // Find the most recent closed period for this condominium
+  // Find the most recent closed period for this condominium and utility
   const previousPeriod = await prisma.period.findFirst({
     where: {
       condominiumId: currentPeriod.condominiumId,
+      utilityType: currentPeriod.utilityType,
       status: PeriodStatus.CLOSED,
       id: { not: req.params.periodId }, // Exclude current period
     },
@@ -1204,58 +1706,135 @@ router.get('/:periodId/previous-readings', asyncHandler(async (req, res) => {
   });
 }));
 
+// ============== FORECASTING ==============
+
+// Forecast consumption and amount per unit and for the condominium, with confidence bands
+router.get('/:periodId/forecast', asyncHandler(async (req, res) => {
+  const options = forecastSchema.parse(req.query);
+
+  const period = await prisma.period.findUnique({
+    where: { id: req.params.periodId },
+    select: { condominiumId: true },
+  });
+
+  if (!period) {
+    throw createError('Period not found', 404);
+  }
+
+  // Check access to condominium
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === period.condominiumId
+    );
+
+    if (!hasAccess) {
+      throw createError('Access denied to this period', 403);
+    }
+  }
+
+  try {
+    res.json(await forecastService.forecastPeriod(req.params.periodId, options));
+  } catch (error) {
+    throw createError(`Forecast failed: ${error.message}`, 400);
+  }
+}));
+
 // ============== STORED CALCULATIONS MANAGEMENT ==============
 
-// Save period calculations when closing period
+// Calculate and save period calculations when closing period (ADMIN only; the period
+// must be CALCULATING). Client-submitted values are optional and only checked against
+// the server calculation.
 router.post('/:periodId/calculations', asyncHandler(async (req, res) => {
-  const { periodCalculation, unitCalculations } = req.body;
+  const { unitCalculations, tolerance } = saveCalculationsSchema.parse(req.body);
 
   const period = await prisma.period.findUnique({
     where: { id: req.params.periodId },
-    select: { condominiumId: true, status: true },
+    select: { condominiumId: true },
   });
 
   if (!period) {
     throw createError('Period not found', 404);
   }
 
-  // Check access to condominium
+  // Check access to condominium - only ADMIN can issue bills, as in /api/bills/calculate
   if (req.user!.role !== UserRole.SUPER_ADMIN) {
     const hasAccess = req.condominiumAccess?.some(
-      access => access.condominiumId === period.condominiumId && 
-      [UserRole.ADMIN, UserRole.EDITOR].includes(access.role)
+      access => access.condominiumId === period.condominiumId &&
+      access.role === UserRole.ADMIN
     );
-    
+
     if (!hasAccess) {
-      throw createError('Access denied to save calculations for this period', 403);
+      throw createError('Access denied. Only administrators can save calculations.', 403);
     }
   }
 
-  // Use transaction to ensure data consistency
-  const result = await prisma.$transaction(async (tx) => {
-    // Save period-level calculations
-    const savedPeriodCalc = await tx.periodCalculation.create({
-      data: {
-        periodId: req.params.periodId,
-        ...periodCalculation,
-      },
+  // Validate period is ready for calculation
+  const validation = await calculationService.validatePeriodForCalculation(req.params.periodId);
+  if (!validation.isValid) {
+    return res.status(400).json({
+      error: 'Period is not ready for calculation',
+      validationErrors: validation.errors,
     });
+  }
 
-    // Save unit-level calculations (exclude display-only fields)
-    const savedUnitCalcs = await tx.unitCalculation.createMany({
-      data: unitCalculations.map((calc: any) => {
-        const { unitName, blockName, ...validCalc } = calc;
-        return {
-          periodId: req.params.periodId,
-          ...validCalc,
-        };
-      }),
-    });
+  let calculationResult: CalculationResult;
+  try {
+    calculationResult = await calculationService.calculatePeriodBills(req.params.periodId);
+  } catch (error) {
+    throw createError(`Calculation failed: ${error.message}`, 400);
+  }
+
+  if (unitCalculations) {
+    const mismatches = calculationService.findMismatches(
+      calculationResult,
+      unitCalculations as SubmittedUnitCalculation[],
+      tolerance
+    );
 
-    return { periodCalculation: savedPeriodCalc, unitCalculationsCount: savedUnitCalcs.count };
+    if (mismatches.length > 0) {
+      return res.status(400).json({
+        error: 'Submitted calculations do not match the server calculation',
+        mismatches,
+      });
+    }
+  }
+
+  // Bills, unit calculations and the period calculation are saved together
+  let version;
+  try {
+    version = await calculationService.saveBills(req.params.periodId, calculationResult, req.user!.id);
+  } catch (error) {
+    throw createError(`Saving calculations failed: ${error.message}`, 400);
+  }
+
+  const periodCalculation = await prisma.periodCalculation.findUnique({
+    where: { periodId: req.params.periodId },
   });
 
-  res.json(result);
+  // Log action
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CALCULATE',
+      entity: 'Period',
+      entityId: req.params.periodId,
+      newData: {
+        version: version.version,
+        totalBills: calculationResult.bills.length,
+        totalAmount: sumMoney(calculationResult.bills.map(bill => bill.totalCost)),
+        anomalies: calculationResult.anomalies,
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    },
+  });
+
+  res.json({
+    periodCalculation,
+    unitCalculationsCount: calculationResult.bills.length,
+    version: version.version,
+    anomalies: calculationResult.anomalies,
+  });
 }));
 
 // Get stored calculations for a closed period
@@ -1325,6 +1904,101 @@ router.get('/:periodId/calculations', asyncHandler(async (req, res) => {
   });
 }));
 
+// Get all calculation versions of a period
+router.get('/:periodId/calculations/versions', asyncHandler(async (req, res) => {
+  const period = await prisma.period.findUnique({
+    where: { id: req.params.periodId },
+    select: { condominiumId: true },
+  });
+
+  if (!period) {
+    throw createError('Period not found', 404);
+  }
+
+  // Check access to condominium
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === period.condominiumId
+    );
+    
+    if (!hasAccess) {
+      throw createError('Access denied to view calculations for this period', 403);
+    }
+  }
+
+  const versions = await calculationVersionService.listVersions(req.params.periodId);
+  res.json(versions);
+}));
+
+// Compare two calculation versions unit by unit
+router.get('/:periodId/calculations/versions/diff', asyncHandler(async (req, res) => {
+  const { from, to } = diffVersionsSchema.parse(req.query);
+
+  const period = await prisma.period.findUnique({
+    where: { id: req.params.periodId },
+    select: { condominiumId: true },
+  });
+
+  if (!period) {
+    throw createError('Period not found', 404);
+  }
+
+  // Check access to condominium
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === period.condominiumId
+    );
+    
+    if (!hasAccess) {
+      throw createError('Access denied to view calculations for this period', 403);
+    }
+  }
+
+  try {
+    const diff = await calculationVersionService.diffVersions(req.params.periodId, from, to);
+    res.json(diff);
+  } catch (error) {
+    throw createError(`Version comparison failed: ${error.message}`, 404);
+  }
+}));
+
+// Get a single calculation version with its inputs
+router.get('/:periodId/calculations/versions/:version', asyncHandler(async (req, res) => {
+  const version = parseInt(req.params.version);
+
+  if (isNaN(version)) {
+    throw createError('Version must be a number', 400);
+  }
+
+  const period = await prisma.period.findUnique({
+    where: { id: req.params.periodId },
+    select: { condominiumId: true },
+  });
+
+  if (!period) {
+    throw createError('Period not found', 404);
+  }
+
+  // Check access to condominium
+  if (req.user!.role !== UserRole.SUPER_ADMIN) {
+    const hasAccess = req.condominiumAccess?.some(
+      access => access.condominiumId === period.condominiumId
+    );
+    
+    if (!hasAccess) {
+      throw createError('Access denied to view calculations for this period', 403);
+    }
+  }
+
+  const calculationVersion = await calculationVersionService.getVersion(req.params.periodId, version);
+
+  if (!calculationVersion) {
+    throw createError('Calculation version not found', 404);
+  }
+
+  res.json(calculationVersion);
+}));
+
 // Delete stored calculations (for reopening period) - Super Admin only
 router.delete('/:periodId/calculations', asyncHandler(async (req, res) => {
   // Only SUPER_ADMIN can delete calculations to reopen periods
@@ -1345,6 +2019,20 @@ router.delete('/:periodId/calculations', asyncHandler(async (req, res) => {
     throw createError('Can only delete calculations from closed periods', 400);
   }
 
+  // A reopened period could never be closed again, since saving bills refuses these
+  const [notes, payments] = await Promise.all([
+    prisma.billNote.count({ where: { bill: { periodId: req.params.periodId } } }),
+    prisma.paymentAllocation.count({ where: { bill: { periodId: req.params.periodId } } }),
+  ]);
+
+  if (notes > 0) {
+    throw createError('Bills of this period have credit or debit notes; correct them with further notes instead of reopening', 400);
+  }
+
+  if (payments > 0) {
+    throw createError('Bills of this period already have payments applied; correct them with credit or debit notes instead of reopening', 400);
+  }
+
   // Use transaction to ensure data consistency
   await prisma.$transaction(async (tx) => {
     // Delete unit calculations first (foreign key constraint)
@@ -1377,7 +2065,7 @@ router.delete('/:periodId/calculations', asyncHandler(async (req, res) => {
     },
   });
 
-  res.json({ message: 'Period reopened successfully. Calculations deleted.' });
+  res.json({ message: 'Period reopened successfully. Calculations deleted, calculation versions kept.' });
 }));
 
 export default router;
\ No newline at end of file
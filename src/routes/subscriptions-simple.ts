@@ -3,6 +3,7 @@ import { authenticate, requireRole } from '../middleware/auth';
 import { UserRole } from '@prisma/client';
 import { asyncHandler } from '../middleware/errorHandler';
 import { calculatePricing, formatPricePEN, getDefaultPricingConfig } from '../utils/pricing';
+import { toMoney } from '../utils/money';
 
 const router = Router();
 
@@ -95,8 +96,8 @@ router.get('/pricing/info', authenticate, asyncHandler(async (req, res) => {
     summary: {
       pricePerUnit: formatPricePEN(config.pricePerUnitPEN),
       minimumUnits: config.minimumUnits,
-      minimumMonthly: formatPricePEN(config.minimumUnits * config.pricePerUnitPEN),
-      minimumAnnual: formatPricePEN(config.minimumUnits * config.pricePerUnitPEN * 12),
+      minimumMonthly: formatPricePEN(toMoney(config.pricePerUnitPEN).times(config.minimumUnits)),
+      minimumAnnual: formatPricePEN(toMoney(config.pricePerUnitPEN).times(config.minimumUnits * 12)),
       isAnnualPrepaid: config.isAnnualPrepaid
     }
   });
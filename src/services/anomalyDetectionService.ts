@@ -0,0 +1,248 @@
+import { PrismaClient, PeriodStatus, MeterType, ReadingAnomalyType } from '@prisma/client';
+import { ConsumptionHistoryService } from './consumptionHistoryService';
+import { calculateMeterConsumption } from '../utils/consumption';
+import { mean, percentChange, standardDeviation, zScore } from '../utils/statistics';
+import { Forecast, forecastBand } from '../utils/forecast';
+
+// Fewer data points than this make z-scores meaningless
+const MIN_HISTORY_PERIODS = 3;
+const MIN_BUILDING_UNITS = 5;
+
+export interface AnomalyThresholds {
+  zScore: number; // Standard deviations away from the mean
+  percentChange: number; // Increase over the historical average, in %
+  historyPeriods: number; // Closed periods used as the meter's history
+}
+
+export interface AnomalyReason {
+  type: ReadingAnomalyType;
+  zScore?: number;
+  percentChange?: number;
+  baseline?: number; // Previous reading, mean consumption of the compared group, or forecast
+}
+
+export interface AnomalyDetails {
+  consumption: number | null;
+  previousValue: number | null;
+  reasons: AnomalyReason[];
+  history: { periods: number; mean: number; standardDeviation: number } | null;
+  building: { units: number; mean: number; standardDeviation: number } | null;
+  forecast: Forecast | null; // Expected consumption of the meter for this period
+  thresholds: AnomalyThresholds;
+}
+
+export interface AnomalyDetection {
+  isAnomalous: boolean;
+  anomalyType: ReadingAnomalyType | null; // First reason found
+  details: AnomalyDetails;
+}
+
+interface MeterInfo {
+  id: string;
+  unitId?: string | null;
+  maxDigits?: number | null;
+}
+
+interface PeriodInfo {
+  id: string;
+  condominiumId: string;
+  utilityType: MeterType;
+  startDate: Date;
+}
+
+const round = (value: number, decimals: number = 2): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+export const getAnomalyThresholds = (condominium: {
+  anomalyZScoreThreshold: number;
+  anomalyPercentThreshold: number;
+  anomalyHistoryPeriods: number;
+}): AnomalyThresholds => ({
+  zScore: condominium.anomalyZScoreThreshold,
+  percentChange: condominium.anomalyPercentThreshold,
+  historyPeriods: condominium.anomalyHistoryPeriods,
+});
+
+export class AnomalyDetectionService {
+  private history: ConsumptionHistoryService;
+
+  constructor(private prisma: PrismaClient) {
+    this.history = new ConsumptionHistoryService(prisma);
+  }
+
+  /**
+   * Checks a new reading against the previous one, the meter's own history
+   * (z-score and % change over its average, and its forecast band) and, for unit
+   * meters, the consumption of the other units in the last calculated period.
+   */
+  async detect(
+    meter: MeterInfo,
+    period: PeriodInfo,
+    value: number,
+    thresholds: AnomalyThresholds
+  ): Promise<AnomalyDetection> {
+    const reasons: AnomalyReason[] = [];
+    const details: AnomalyDetails = {
+      consumption: null,
+      previousValue: null,
+      reasons,
+      history: null,
+      building: null,
+      forecast: null,
+      thresholds,
+    };
+
+    const previousReading = await this.prisma.reading.findFirst({
+      where: {
+        meterId: meter.id,
+        period: {
+          condominiumId: period.condominiumId,
+          status: PeriodStatus.CLOSED,
+          startDate: { lt: period.startDate },
+        },
+      },
+      orderBy: { period: { startDate: 'desc' } },
+    });
+
+    if (!previousReading) {
+      return { isAnomalous: false, anomalyType: null, details };
+    }
+
+    details.previousValue = previousReading.value;
+
+    const { consumption, event } = calculateMeterConsumption(previousReading.value, value, meter.maxDigits);
+
+    if (value < previousReading.value) {
+      reasons.push({ type: ReadingAnomalyType.NEGATIVE_CONSUMPTION, baseline: previousReading.value });
+    }
+
+    // After a replacement the consumption is not comparable with the meter's history
+    if (event !== 'REPLACEMENT') {
+      details.consumption = round(consumption, 3);
+
+      // Estimated periods are themselves based on the average, so they would mask a change
+      const history = (await this.history.getMeterHistory(meter.id, thresholds.historyPeriods))
+        .filter(entry => !entry.isEstimated)
+        .map(entry => entry.consumption);
+
+      if (history.length >= MIN_HISTORY_PERIODS) {
+        this.checkHistory(history, consumption, thresholds, details);
+        this.checkForecast(history, consumption, thresholds, details);
+      }
+
+      if (meter.unitId) {
+        await this.checkBuilding(meter.unitId, period, consumption, thresholds, details);
+      }
+    }
+
+    return {
+      isAnomalous: reasons.length > 0,
+      anomalyType: reasons[0]?.type ?? null,
+      details,
+    };
+  }
+
+  private checkHistory(
+    values: number[],
+    consumption: number,
+    thresholds: AnomalyThresholds,
+    details: AnomalyDetails
+  ) {
+    const average = mean(values);
+    details.history = {
+      periods: values.length,
+      mean: round(average, 3),
+      standardDeviation: round(standardDeviation(values), 3),
+    };
+
+    const score = zScore(consumption, values);
+    const change = percentChange(consumption, average);
+    const metrics = {
+      zScore: score !== null ? round(score) : undefined,
+      percentChange: change !== null ? round(change) : undefined,
+      baseline: round(average, 3),
+    };
+
+    if ((score !== null && score >= thresholds.zScore) || (change !== null && change >= thresholds.percentChange)) {
+      details.reasons.push({ type: ReadingAnomalyType.CONSUMPTION_SPIKE, ...metrics });
+    } else if (score !== null && score <= -thresholds.zScore) {
+      details.reasons.push({ type: ReadingAnomalyType.CONSUMPTION_DROP, ...metrics });
+    }
+  }
+
+  // History is most recent first; the forecast expects it oldest first. The band is as wide
+  // as the condominium's thresholds, so it flags no smaller deviation than the history check
+  // would. A band with no width (a history of zeros) would flag any consumption at all, so
+  // it is not checked.
+  private checkForecast(
+    history: number[],
+    consumption: number,
+    thresholds: AnomalyThresholds,
+    details: AnomalyDetails
+  ) {
+    const forecast = forecastBand([...history].reverse(), thresholds.zScore, thresholds.percentChange / 100);
+    details.forecast = forecast;
+
+    if (forecast && forecast.upper > forecast.expected && consumption > forecast.upper) {
+      const change = percentChange(consumption, forecast.expected);
+      details.reasons.push({
+        type: ReadingAnomalyType.ABOVE_FORECAST,
+        percentChange: change !== null ? round(change) : undefined,
+        baseline: forecast.expected,
+      });
+    }
+  }
+
+  private async checkBuilding(
+    unitId: string,
+    period: PeriodInfo,
+    consumption: number,
+    thresholds: AnomalyThresholds,
+    details: AnomalyDetails
+  ) {
+    // Distribution of unit consumption in the last calculated period of the same utility
+    const lastPeriod = await this.prisma.period.findFirst({
+      where: {
+        condominiumId: period.condominiumId,
+        utilityType: period.utilityType,
+        status: PeriodStatus.CLOSED,
+        startDate: { lt: period.startDate },
+        unitCalculations: { some: {} },
+      },
+      orderBy: { startDate: 'desc' },
+      select: { id: true },
+    });
+
+    if (!lastPeriod) {
+      return;
+    }
+
+    const calculations = await this.prisma.unitCalculation.findMany({
+      where: { periodId: lastPeriod.id, unitId: { not: unitId } },
+      select: { consumption: true },
+    });
+    const values = calculations.map(calc => calc.consumption);
+
+    if (values.length < MIN_BUILDING_UNITS) {
+      return;
+    }
+
+    const average = mean(values);
+    details.building = {
+      units: values.length,
+      mean: round(average, 3),
+      standardDeviation: round(standardDeviation(values), 3),
+    };
+
+    const score = zScore(consumption, values);
+    if (score !== null && score >= thresholds.zScore) {
+      details.reasons.push({
+        type: ReadingAnomalyType.BUILDING_OUTLIER,
+        zScore: round(score),
+        baseline: round(average, 3),
+      });
+    }
+  }
+}
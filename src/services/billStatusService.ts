@@ -0,0 +1,100 @@
+import { Prisma, PrismaClient, BillStatus, PeriodStatus } from '@prisma/client';
+import { ZERO } from '../utils/money';
+import { getBillOutstanding } from './ledgerService';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses of a bill that is still waiting to be paid
+const UNPAID_STATUSES: BillStatus[] = [BillStatus.PENDING, BillStatus.SENT];
+
+export const getDueDate = (closedAt: Date, paymentDueDays: number): Date =>
+  new Date(closedAt.getTime() + paymentDueDays * DAY_MS);
+
+export class BillStatusService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Sets the due date of the period's bills to the period close plus the
+   * condominium's payment days. Bills of an open period have no due date yet.
+   */
+  async assignDueDates(periodId: string, client: DbClient = this.prisma) {
+    const period = await client.period.findUnique({
+      where: { id: periodId },
+      select: {
+        status: true,
+        endDate: true,
+        condominium: { select: { paymentDueDays: true } },
+      },
+    });
+
+    if (!period || period.status !== PeriodStatus.CLOSED || !period.endDate) {
+      return null;
+    }
+
+    const dueDate = getDueDate(period.endDate, period.condominium.paymentDueDays);
+
+    await client.bill.updateMany({
+      where: { periodId },
+      data: { dueDate },
+    });
+
+    return dueDate;
+  }
+
+  /**
+   * Moves every unpaid bill whose due date has passed to OVERDUE, recording the
+   * time of the change and an audit entry per bill. Bills already covered by
+   * credit notes or payments are left as they are.
+   */
+  async markOverdueBills(asOf: Date = new Date()) {
+    const bills = await this.prisma.$transaction(async (tx) => {
+      const dueBills = (await tx.bill.findMany({
+        where: {
+          status: { in: UNPAID_STATUSES },
+          dueDate: { lt: asOf },
+        },
+        select: {
+          id: true,
+          status: true,
+          dueDate: true,
+          totalCost: true,
+          notes: { select: { type: true, amount: true } },
+          penalty: { select: { amount: true } },
+          paymentAllocations: { select: { amount: true } },
+        },
+      })).filter(bill => getBillOutstanding(bill).gt(ZERO));
+
+      if (dueBills.length === 0) {
+        return dueBills;
+      }
+
+      await tx.bill.updateMany({
+        where: { id: { in: dueBills.map(bill => bill.id) } },
+        data: {
+          status: BillStatus.OVERDUE,
+          statusChangedAt: asOf,
+        },
+      });
+
+      await tx.auditLog.createMany({
+        data: dueBills.map(bill => ({
+          action: 'MARK_OVERDUE',
+          entity: 'Bill',
+          entityId: bill.id,
+          oldData: { status: bill.status },
+          newData: { status: BillStatus.OVERDUE, dueDate: bill.dueDate, statusChangedAt: asOf },
+        })),
+      });
+
+      return dueBills;
+    });
+
+    return {
+      asOf,
+      updated: bills.length,
+      billIds: bills.map(bill => bill.id),
+    };
+  }
+}
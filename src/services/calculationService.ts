@@ -1,11 +1,41 @@
-import { PrismaClient, PeriodStatus, BillStatus } from '@prisma/client';
+import { Prisma, PrismaClient, PeriodStatus, BillStatus, CommonAreaDistribution, ExtraChargeType, MeterType, ReceiptDistribution, ReceiptLineItemType } from '@prisma/client';
+import { TariffTier, TierCharge, applyTariffTiers, parseTariffTiers } from '../utils/tariffs';
+import { distributeCommonArea } from '../utils/distribution';
+import { ConsumptionEvent, calculateMeterConsumption } from '../utils/consumption';
+import { allocateRounding } from '../utils/rounding';
+import { capCredit, priceOverestimate } from '../utils/trueUp';
+import { ProratedShare, prorateBill } from '../utils/proration';
+import { Money, ZERO, roundMoney, sumMoney, toMoney } from '../utils/money';
+import { CalculationVersionService, buildVersionResult } from './calculationVersionService';
+import { BillStatusService } from './billStatusService';
+import { LedgerService } from './ledgerService';
 
-interface CalculationResult {
+export interface CalculationResult {
   totalIndividualConsumption: number;
-  commonAreaConsumption: number;
-  commonAreaCostPerUnit: number;
+  commonAreaConsumption: number; // Receipt volume not consumed by units
+  measuredCommonConsumption: number; // Part of it measured by common-area meters
+  unexplainedLoss: number; // The rest: leaks, unmetered use or reading errors
+  commonMeterBreakdown: CommonMeterConsumption[];
+  commonAreaTotalCost: Money;
+  commonAreaCostPerUnit: Money;
+  costPerCubicMeter: Money;
+  distributionStrategy: CommonAreaDistribution;
   bills: BillData[];
   anomalies: string[];
+  inputs: CalculationInputs;
+}
+
+// Everything the calculation was based on, kept with each calculation version
+export interface CalculationInputs {
+  receipt: {
+    totalVolume: number;
+    totalAmount: Money;
+    lineItems: { lineItemId: string; type: ReceiptLineItemType; amount: Money; distribution: ReceiptDistribution }[];
+  };
+  rates: UtilityRates;
+  readings: { readingId: string; meterId: string; value: number; isEstimated: boolean }[];
+  previousReadings: { meterId: string; periodId: string; value: number; isEstimated: boolean }[];
+  extraChargeIds: string[];
 }
 
 interface BillData {
@@ -16,35 +46,125 @@ interface BillData {
   currentReading: number;
   previousReading: number;
   consumption: number;
-  individualCost: number;
-  commonAreaCost: number;
-  totalCost: number;
-  extraCharges?: ExtraCharge[];
+  individualCost: Money;
+  commonAreaCost: Money;
+  totalCost: Money;
+  roundingAdjustment: Money; // Cents added to or removed from the common area share
+  tierBreakdown: TierCharge[];
+  meterBreakdown: MeterConsumption[];
+  extraCharges?: BillExtraCharge[];
+  receiptCharges?: BillReceiptCharge[];
+  shares?: ProratedShare[]; // Set when the bill is split between residents
+  trueUpCredit?: Money; // Volume billed in excess on estimated readings, at the rates it was billed with
+}
+
+// Overrides used to simulate a calculation without touching stored data
+export interface CalculationOptions {
+  allowAnyStatus?: boolean; // Run on open or closed periods, not only CALCULATING ones
+  rates?: {
+    tiers?: TariffTier[];
+    commonAreaRate?: Money | null;
+    fixedCharge?: Money | null;
+    minimumConsumption?: number | null;
+  };
+  rateAdjustmentPercent?: number; // e.g. 10 to raise every rate by 10%
+  distributionStrategy?: CommonAreaDistribution;
+  receipt?: { totalVolume?: number; totalAmount?: Money };
+}
+
+// Values calculated by a client, checked against the server calculation
+export interface SubmittedUnitCalculation {
+  unitId: string;
+  consumption?: number;
+  individualAmount?: Money;
+  commonAreasAmount?: Money;
+  totalAmount?: Money;
+}
+
+export interface CalculationMismatch {
+  unitId: string;
+  field: keyof Omit<SubmittedUnitCalculation, 'unitId'> | 'unit';
+  submitted: string | number | null;
+  calculated: string | number | null;
+}
+
+interface MeterConsumption {
+  meterId: string;
+  serialNumber?: string | null;
+  previousReading: number;
+  currentReading: number;
+  consumption: number;
+  event?: ConsumptionEvent; // Rollover or replacement detected between readings
+  retiredAt?: Date; // Set for a replaced meter billed up to its final reading
+  isEstimated?: boolean; // Current reading was estimated
+  overestimate?: { periodId: string; volume: number }; // Previous estimated reading was above the real one
+}
+
+interface CommonMeterConsumption {
+  meterId: string;
+  name?: string | null;
+  blockName?: string;
+  serialNumber?: string | null;
+  previousReading: number;
+  currentReading: number;
+  consumption: number;
+  event?: ConsumptionEvent;
+  isEstimated?: boolean;
 }
 
-interface ExtraCharge {
+interface BillExtraCharge {
+  chargeId: string;
   description: string;
-  amount: number;
+  amount: Money; // Fixed amount or percentage, depending on type
   type: 'fixed' | 'percentage';
+  total: Money; // Amount actually added to the bill
 }
 
-interface WaterRates {
-  basicRate: number; // Cost per m³ for individual consumption
-  commonAreaRate?: number; // Optional different rate for common areas
-  fixedCharge?: number; // Fixed monthly charge per unit
+// Share of a receipt line item that is not priced with the tariffs
+interface BillReceiptCharge {
+  lineItemId: string;
+  type: ReceiptLineItemType;
+  description?: string | null;
+  distribution: ReceiptDistribution;
+  amount: Money;
+}
+
+interface UtilityRates {
+  rateSettingId: string | null; // Null when a simulation supplies its own tiers
+  tiers: TariffTier[]; // Increasing block tariff for individual consumption
+  commonAreaRate?: Money; // Optional different rate for common areas
+  fixedCharge?: Money; // Fixed monthly charge per unit
   minimumConsumption?: number; // Minimum billable consumption
 }
 
 export class CalculationService {
-  constructor(private prisma: PrismaClient) {}
+  private versionService: CalculationVersionService;
+  private billStatusService: BillStatusService;
+  private ledgerService: LedgerService;
+
+  constructor(private prisma: PrismaClient) {
+    this.versionService = new CalculationVersionService(prisma);
+    this.billStatusService = new BillStatusService(prisma);
+    this.ledgerService = new LedgerService(prisma);
+  }
 
-  async calculatePeriodBills(periodId: string): Promise<CalculationResult> {
+  async calculatePeriodBills(periodId: string, options: CalculationOptions = {}): Promise<CalculationResult> {
     // Get period with all necessary data
     const period = await this.prisma.period.findUnique({
       where: { id: periodId },
       include: {
+        receipts: {
+          include: { lineItems: true },
+          orderBy: { createdAt: 'asc' },
+        },
         condominium: {
           include: {
+            commonMeters: {
+              where: { isActive: true },
+              include: {
+                block: { select: { name: true } },
+              },
+            },
             blocks: {
               include: {
                 units: {
@@ -60,8 +180,16 @@ export class CalculationService {
                         name: true,
                       },
                     },
+                    unitResidents: {
+                      include: {
+                        resident: { select: { name: true } },
+                      },
+                    },
                     meters: {
-                      where: { isActive: true, type: 'WATER' },
+                      where: { isActive: true },
+                      include: {
+                        replacesMeter: true,
+                      },
                     },
                   },
                 },
@@ -98,29 +226,55 @@ export class CalculationService {
       throw new Error('Period not found');
     }
 
-    if (period.status !== PeriodStatus.CALCULATING) {
+    if (!options.allowAnyStatus && period.status !== PeriodStatus.CALCULATING) {
       throw new Error('Period is not ready for calculation');
     }
 
-    if (!period.totalVolume || !period.totalAmount) {
+    const totalVolume = options.receipt?.totalVolume ?? period.totalVolume;
+    const totalAmount = options.receipt?.totalAmount ?? period.totalAmount;
+
+    if (!totalVolume || !totalAmount) {
       throw new Error('Period receipt data is incomplete');
     }
 
-    // Get water rates (from system config or default values)
-    const waterRates = await this.getWaterRates();
+    const strategy = options.distributionStrategy ?? period.condominium.commonAreaDistribution;
+
+    // Itemized receipts: TARIFF items are priced with the rates, with the remainder shared
+    // as common area; every other item is split by its own rule. A simulated receipt
+    // amount replaces the items.
+    const lineItems = options.receipt?.totalAmount === undefined
+      ? period.receipts.flatMap(receipt => receipt.lineItems)
+      : [];
+    const ruleItems = lineItems.filter(item => item.distribution !== ReceiptDistribution.TARIFF);
+    const usesTariffs = lineItems.length === 0 || ruleItems.length < lineItems.length;
+    const tariffAmount = totalAmount.minus(sumMoney(ruleItems.map(item => item.amount)));
+
+    // Get the rates configured for this condominium, utility and period
+    const rates = await this.getRates(period, options);
     
     // Get all active units for this condominium
     const activeUnits = period.condominium.blocks.flatMap(block => 
-      block.units.filter(unit => unit.isActive && unit.meters.length > 0).map(unit => ({
-        ...unit,
-        block: { name: block.name }
-      }))
+      block.units
+        .map(unit => ({
+          ...unit,
+          meters: unit.meters.filter(meter => meter.type === period.utilityType),
+          block: { name: block.name }
+        }))
+        .filter(unit => unit.isActive && unit.meters.length > 0)
     );
 
+    // Common-area meters (pool, garden, lobby) of the period's utility
+    const commonMeters = period.condominium.commonMeters.filter(meter => meter.type === period.utilityType);
+
     // Get previous period readings for comparison
     const previousReadings = await this.getPreviousReadings(
-      period.condominiumId,
-      activeUnits.map(unit => unit.meters[0].id)
+      period,
+      [
+        ...activeUnits.flatMap(unit => unit.meters.flatMap(meter =>
+          meter.replacesMeterId ? [meter.id, meter.replacesMeterId] : [meter.id]
+        )),
+        ...commonMeters.map(meter => meter.id),
+      ]
     );
 
     const anomalies: string[] = [];
@@ -129,160 +283,716 @@ export class CalculationService {
 
     // Calculate individual consumptions
     for (const unit of activeUnits) {
-      const meter = unit.meters[0]; // Primary water meter
-      const currentReading = period.readings.find(r => r.meterId === meter.id);
-      
-      if (!currentReading) {
+      const meterBreakdown: MeterConsumption[] = [];
+      const missingMeters: string[] = [];
+
+      // Aggregate consumption across every active meter of the period's utility
+      for (const meter of unit.meters) {
+        const currentReading = period.readings.find(r => r.meterId === meter.id);
+
+        if (!currentReading) {
+          missingMeters.push(meter.serialNumber || meter.id);
+          continue;
+        }
+
+        const previousReading = previousReadings.get(meter.id);
+        const previousValue = previousReading?.value ?? meter.initialReading;
+
+        // First billing of a replacement meter: also bill the retired meter up to its final reading
+        const retiredMeter = meter.replacesMeter;
+        if (!previousReading && retiredMeter && retiredMeter.finalReading !== null) {
+          const retiredPreviousValue = previousReadings.get(retiredMeter.id)?.value ?? retiredMeter.initialReading;
+          const retired = calculateMeterConsumption(
+            retiredPreviousValue,
+            retiredMeter.finalReading,
+            retiredMeter.maxDigits
+          );
+
+          anomalies.push(
+            `Meter replaced for unit ${unit.name}: meter ${retiredMeter.serialNumber || retiredMeter.id} billed ${retiredPreviousValue}→${retiredMeter.finalReading}, meter ${meter.serialNumber || meter.id} billed ${previousValue}→${currentReading.value}`
+          );
+
+          meterBreakdown.push({
+            meterId: retiredMeter.id,
+            serialNumber: retiredMeter.serialNumber,
+            previousReading: retiredPreviousValue,
+            currentReading: retiredMeter.finalReading,
+            consumption: retired.consumption,
+            event: retired.event,
+            retiredAt: retiredMeter.replacedAt ?? undefined,
+          });
+        }
+
+        // Handle meter rollover, replacement or anomalous readings
+        let { consumption: meterConsumption, event, capacity } = calculateMeterConsumption(
+          previousValue,
+          currentReading.value,
+          meter.maxDigits
+        );
+
+        // True-up of an estimated previous reading: a lower real reading means we overestimated,
+        // and the excess is credited on this bill
+        let overestimate: MeterConsumption['overestimate'];
+        if (previousReading?.isEstimated && !currentReading.isEstimated && currentReading.value < previousValue && event !== 'ROLLOVER') {
+          meterConsumption = 0;
+          event = undefined;
+          overestimate = { periodId: previousReading.periodId, volume: previousValue - currentReading.value };
+          anomalies.push(
+            `Estimated reading overestimated consumption for unit ${unit.name} (meter ${meter.serialNumber || meter.id}) by ${(previousValue - currentReading.value).toFixed(2)} m³: estimated=${previousValue}, actual=${currentReading.value}`
+          );
+        } else if (previousReading?.isEstimated && !currentReading.isEstimated) {
+          anomalies.push(
+            `Estimated reading trued up for unit ${unit.name} (meter ${meter.serialNumber || meter.id}): estimated=${previousValue}, actual=${currentReading.value}`
+          );
+        }
+
+        if (currentReading.isEstimated) {
+          anomalies.push(`Estimated reading used for unit ${unit.name} (meter ${meter.serialNumber || meter.id})`);
+        }
+
+        if (event === 'ROLLOVER') {
+          anomalies.push(
+            `Meter rollover detected for unit ${unit.name} (meter ${meter.serialNumber || meter.id}): previous=${previousValue}, current=${currentReading.value}, capacity=${capacity}, consumption=${meterConsumption}`
+          );
+        } else if (event === 'REPLACEMENT') {
+          // Possible meter replacement - use current reading as consumption
+          anomalies.push(
+            `Meter replacement detected for unit ${unit.name} (meter ${meter.serialNumber || meter.id}): previous=${previousValue}, current=${currentReading.value}`
+          );
+        }
+
+        meterBreakdown.push({
+          meterId: meter.id,
+          serialNumber: meter.serialNumber,
+          previousReading: previousValue,
+          currentReading: currentReading.value,
+          consumption: meterConsumption,
+          event,
+          isEstimated: currentReading.isEstimated || undefined,
+          overestimate,
+        });
+      }
+
+      if (meterBreakdown.length === 0) {
         anomalies.push(`Missing reading for unit ${unit.name} in block ${unit.block?.name || 'Unknown'}`);
         continue;
       }
 
-      const previousReading = previousReadings.get(meter.id);
-      const previousValue = previousReading?.value || 0;
-
-      // Handle meter replacement or anomalous readings
-      let consumption = currentReading.value - previousValue;
-      if (consumption < 0) {
-        // Possible meter replacement - use current reading as consumption
-        consumption = currentReading.value;
+      if (missingMeters.length > 0) {
         anomalies.push(
-          `Meter replacement detected for unit ${unit.name}: previous=${previousValue}, current=${currentReading.value}`
+          `Missing reading for meter ${missingMeters.join(', ')} of unit ${unit.name} in block ${unit.block?.name || 'Unknown'}`
         );
       }
 
+      let consumption = meterBreakdown.reduce((sum, meter) => sum + meter.consumption, 0);
+
       // Apply minimum consumption if configured
-      if (waterRates.minimumConsumption && consumption < waterRates.minimumConsumption) {
-        consumption = waterRates.minimumConsumption;
+      if (rates.minimumConsumption && consumption < rates.minimumConsumption) {
+        consumption = rates.minimumConsumption;
       }
 
       totalIndividualConsumption += consumption;
 
       // Calculate individual cost
-      const individualCost = this.calculateIndividualCost(consumption, waterRates);
+      const { individualCost, tierBreakdown } = usesTariffs
+        ? this.calculateIndividualCost(consumption, rates)
+        : { individualCost: ZERO, tierBreakdown: [] };
 
       const billData: BillData = {
         unitId: unit.id,
         unitName: unit.name,
         blockName: unit.block?.name || 'Unknown',
         residentName: unit.resident?.name,
-        currentReading: currentReading.value,
-        previousReading: previousValue,
+        currentReading: meterBreakdown.reduce((sum, meter) => sum + meter.currentReading, 0),
+        previousReading: meterBreakdown.reduce((sum, meter) => sum + meter.previousReading, 0),
         consumption,
         individualCost,
-        commonAreaCost: 0, // Will be calculated after
-        totalCost: 0, // Will be calculated after
+        commonAreaCost: ZERO, // Will be calculated after
+        totalCost: ZERO, // Will be calculated after
+        roundingAdjustment: ZERO, // Will be calculated after
+        tierBreakdown,
+        meterBreakdown,
       };
 
       bills.push(billData);
     }
 
     // Calculate common area consumption and distribution
-    const commonAreaConsumption = Math.max(0, period.totalVolume - totalIndividualConsumption);
-    const commonAreaTotalCost = Math.max(0, period.totalAmount - bills.reduce((sum, bill) => sum + bill.individualCost, 0));
-    const commonAreaCostPerUnit = bills.length > 0 ? commonAreaTotalCost / bills.length : 0;
+    const commonAreaConsumption = Math.max(0, totalVolume - totalIndividualConsumption);
 
-    // Apply common area costs to each bill
+    // Split it into what common-area meters measured and unexplained loss
+    const commonMeterBreakdown: CommonMeterConsumption[] = [];
+    for (const meter of commonMeters) {
+      const label = meter.name || meter.serialNumber || meter.id;
+      const currentReading = period.readings.find(r => r.meterId === meter.id);
+
+      if (!currentReading) {
+        anomalies.push(`Missing reading for common-area meter ${label}`);
+        continue;
+      }
+
+      const previousValue = previousReadings.get(meter.id)?.value ?? meter.initialReading;
+      const { consumption, event } = calculateMeterConsumption(previousValue, currentReading.value, meter.maxDigits);
+
+      if (event) {
+        anomalies.push(
+          `Meter ${event.toLowerCase()} detected for common-area meter ${label}: previous=${previousValue}, current=${currentReading.value}`
+        );
+      }
+
+      commonMeterBreakdown.push({
+        meterId: meter.id,
+        name: meter.name,
+        blockName: meter.block?.name,
+        serialNumber: meter.serialNumber,
+        previousReading: previousValue,
+        currentReading: currentReading.value,
+        consumption,
+        event,
+        isEstimated: currentReading.isEstimated || undefined,
+      });
+    }
+
+    const measuredCommonConsumption = commonMeterBreakdown.reduce((sum, meter) => sum + meter.consumption, 0);
+    const unexplainedLoss = Math.max(0, commonAreaConsumption - measuredCommonConsumption);
+
+    if (measuredCommonConsumption > commonAreaConsumption) {
+      anomalies.push(
+        `Common-area meters measured ${measuredCommonConsumption.toFixed(2)} m³, more than the ${commonAreaConsumption.toFixed(2)} m³ left after individual consumption`
+      );
+    }
+    const totalIndividualCost = sumMoney(bills.map(bill => bill.individualCost));
+    const commonAreaTotalCost = Prisma.Decimal.max(ZERO, tariffAmount.minus(totalIndividualCost));
+    const commonAreaCostPerUnit = bills.length > 0 ? roundMoney(commonAreaTotalCost.dividedBy(bills.length)) : ZERO;
+
+    // Distribute common area cost using the condominium's strategy
+    const unitsById = new Map(activeUnits.map(unit => [unit.id, unit]));
+    const distributionShares = bills.map(bill => ({
+      unitId: bill.unitId,
+      consumption: bill.consumption,
+      aliquot: unitsById.get(bill.unitId)?.aliquot,
+      occupants: unitsById.get(bill.unitId)?.occupants,
+    }));
+    const distribution = distributeCommonArea(commonAreaTotalCost, distributionShares, strategy);
+
+    if (distribution.strategy !== strategy) {
+      anomalies.push(
+        `No ${strategy} data available for common area distribution, split equally instead`
+      );
+    }
+
+    const unitNames = (unitIds: string[]) => unitIds.map(unitId => unitsById.get(unitId)?.name ?? unitId).join(', ');
+
+    if (distribution.missingUnitIds.length > 0) {
+      anomalies.push(
+        `No ${strategy} data for unit ${unitNames(distribution.missingUnitIds)}, which pays no common area share`
+      );
+    }
+
+    const periodExtraCharges = await this.getExtraCharges(period);
+    const trueUpCredits = await this.getTrueUpCredits(bills, anomalies);
+    const prorationWindow = { start: period.startDate, end: period.endDate ?? new Date() };
+
+    // Round common area shares to cents so individual + common add up exactly to the receipt.
+    // Bills are ordered by unit ID so the largest remainder tie-break is deterministic.
+    const billsByUnitId = [...bills].sort((a, b) => a.unitId.localeCompare(b.unitId));
+    const rounding = allocateRounding(
+      billsByUnitId.map(bill => distribution.amounts.get(bill.unitId) || ZERO),
+      roundMoney(commonAreaTotalCost)
+    );
+
+    billsByUnitId.forEach((bill, index) => {
+      bill.commonAreaCost = rounding.rounded[index];
+      bill.roundingAdjustment = rounding.adjustments[index];
+    });
+
+    // Split each receipt line item that has its own rule, rounded to add up to the item
+    for (const item of ruleItems) {
+      const rule = CommonAreaDistribution[item.distribution];
+      const itemDistribution = distributeCommonArea(item.amount, distributionShares, rule);
+
+      if (itemDistribution.strategy !== rule) {
+        anomalies.push(
+          `No ${rule} data available for receipt item ${item.description || item.type}, split equally instead`
+        );
+      }
+
+      if (itemDistribution.missingUnitIds.length > 0) {
+        anomalies.push(
+          `No ${rule} data for unit ${unitNames(itemDistribution.missingUnitIds)}, which pays no share of receipt item ${item.description || item.type}`
+        );
+      }
+
+      const itemRounding = allocateRounding(
+        billsByUnitId.map(bill => itemDistribution.amounts.get(bill.unitId) || ZERO),
+        item.amount
+      );
+
+      billsByUnitId.forEach((bill, index) => {
+        bill.receiptCharges = [...(bill.receiptCharges || []), {
+          lineItemId: item.id,
+          type: item.type,
+          description: item.description,
+          distribution: item.distribution,
+          amount: itemRounding.rounded[index],
+        }];
+      });
+    }
+
+    // Apply common area costs and receipt items to each bill
     bills.forEach(bill => {
-      bill.commonAreaCost = commonAreaCostPerUnit;
-      bill.totalCost = bill.individualCost + bill.commonAreaCost;
+      bill.totalCost = bill.individualCost
+        .plus(bill.commonAreaCost)
+        .plus(sumMoney((bill.receiptCharges || []).map(charge => charge.amount)));
       
-      // Add any extra charges if configured
-      const extraCharges = this.getExtraCharges(bill.unitId, period.condominiumId);
+      // Add any extra charges that apply to this unit in this period
+      const unit = unitsById.get(bill.unitId);
+      const usageCost = bill.totalCost;
+      const extraCharges = periodExtraCharges
+        .filter(charge =>
+          (!charge.unitId || charge.unitId === bill.unitId) &&
+          (!charge.blockId || charge.blockId === unit?.blockId)
+        )
+        .map(charge => ({
+          chargeId: charge.id,
+          description: charge.description,
+          amount: charge.amount,
+          type: charge.type === ExtraChargeType.PERCENTAGE ? 'percentage' as const : 'fixed' as const,
+          total: roundMoney(charge.type === ExtraChargeType.PERCENTAGE
+            ? usageCost.times(charge.amount).dividedBy(100)
+            : charge.amount
+          ),
+        }));
+
       if (extraCharges.length > 0) {
         bill.extraCharges = extraCharges;
-        const extraTotal = extraCharges.reduce((sum, charge) => {
-          return sum + (charge.type === 'percentage' 
-            ? bill.totalCost * (charge.amount / 100)
-            : charge.amount
+        bill.totalCost = bill.totalCost.plus(sumMoney(extraCharges.map(charge => charge.total)));
+      }
+
+      const trueUpCredit = trueUpCredits.get(bill.unitId);
+      if (trueUpCredit) {
+        const { applied, uncredited } = capCredit(bill.totalCost, trueUpCredit);
+        bill.trueUpCredit = applied;
+        bill.totalCost = bill.totalCost.minus(applied);
+
+        if (uncredited.gt(ZERO)) {
+          anomalies.push(
+            `Credit for overestimated consumption of unit ${bill.unitName} exceeds its bill: ${uncredited.toFixed(2)} not credited, issue a credit note for it`
+          );
+        }
+      }
+
+      // Split the bill between residents when someone moved in or out during the period
+      const proration = prorateBill(
+        bill.totalCost,
+        (unit?.unitResidents || []).map(unitResident => ({
+          residentId: unitResident.residentId,
+          residentName: unitResident.resident.name,
+          isPrimary: unitResident.isPrimary,
+          startDate: unitResident.startDate,
+          endDate: unitResident.endDate,
+          startReading: unitResident.startReading,
+          endReading: unitResident.endReading,
+        })),
+        prorationWindow,
+        period.condominium.prorationMethod,
+        bill.meterBreakdown.length === 1
+          ? { previous: bill.previousReading, current: bill.currentReading }
+          : undefined
+      );
+
+      if (proration) {
+        bill.shares = proration.shares;
+
+        if (proration.method !== period.condominium.prorationMethod) {
+          anomalies.push(
+            `Missing move-in/move-out reading for unit ${bill.unitName}, bill prorated by days instead`
           );
-        }, 0);
-        bill.totalCost += extraTotal;
+        }
       }
     });
 
-    // Validate calculations
-    const calculatedTotal = bills.reduce((sum, bill) => sum + bill.totalCost, 0);
-    const difference = Math.abs(calculatedTotal - period.totalAmount);
+    // Validate calculations (extra charges are billed on top of the receipt).
+    // Rounding is allocated exactly, so any remaining difference is a real mismatch,
+    // e.g. individual costs alone exceeding the receipt.
+    const calculatedTotal = sumMoney(bills.flatMap(bill => [
+      bill.individualCost,
+      bill.commonAreaCost,
+      ...(bill.receiptCharges || []).map(charge => charge.amount),
+    ]));
+    const difference = calculatedTotal.minus(totalAmount).abs();
     
-    if (difference > 0.01) { // Allow for small rounding differences
+    if (!difference.isZero()) {
       anomalies.push(
-        `Total calculation mismatch: calculated=${calculatedTotal.toFixed(2)}, receipt=${period.totalAmount.toFixed(2)}, difference=${difference.toFixed(2)}`
+        `Total calculation mismatch: calculated=${calculatedTotal.toFixed(2)}, receipt=${totalAmount.toFixed(2)}, difference=${difference.toFixed(2)}`
       );
     }
 
     return {
       totalIndividualConsumption,
       commonAreaConsumption,
+      measuredCommonConsumption,
+      unexplainedLoss,
+      commonMeterBreakdown,
+      commonAreaTotalCost,
       commonAreaCostPerUnit,
+      costPerCubicMeter: roundMoney(totalAmount.dividedBy(totalVolume), 4),
+      distributionStrategy: distribution.strategy,
       bills,
       anomalies,
+      inputs: {
+        receipt: {
+          totalVolume,
+          totalAmount,
+          lineItems: lineItems.map(item => ({
+            lineItemId: item.id,
+            type: item.type,
+            amount: item.amount,
+            distribution: item.distribution,
+          })),
+        },
+        rates: rates,
+        readings: period.readings.map(reading => ({
+          readingId: reading.id,
+          meterId: reading.meterId,
+          value: reading.value,
+          isEstimated: reading.isEstimated,
+        })),
+        previousReadings: Array.from(previousReadings.entries()).map(([meterId, reading]) => ({
+          meterId,
+          ...reading,
+        })),
+        extraChargeIds: periodExtraCharges.map(charge => charge.id),
+      },
     };
   }
 
-  async saveBills(periodId: string, calculationResult: CalculationResult): Promise<void> {
-    // Delete existing bills for this period
-    await this.prisma.bill.deleteMany({
+  /**
+   * Calculates the period with the given overrides and compares each unit with
+   * its actual bill, if any. Nothing is persisted.
+   */
+  async simulatePeriodBills(periodId: string, options: CalculationOptions) {
+    const result = await this.calculatePeriodBills(periodId, { ...options, allowAnyStatus: true });
+
+    const actualBills = await this.prisma.bill.findMany({
       where: { periodId },
+      include: {
+        unit: {
+          include: {
+            block: { select: { name: true } },
+          },
+        },
+      },
     });
+    const actualByUnit = new Map(actualBills.map(bill => [bill.unitId, bill]));
 
-    // Create new bills
-    const billsData = calculationResult.bills.map(bill => ({
-      periodId,
-      unitId: bill.unitId,
-      currentReading: bill.currentReading,
-      previousReading: bill.previousReading,
-      consumption: bill.consumption,
-      individualCost: bill.individualCost,
-      commonAreaCost: bill.commonAreaCost,
-      totalCost: bill.totalCost,
-      extraCharges: bill.extraCharges as any || [],
-      status: BillStatus.PENDING,
-    }));
+    const units = result.bills.map(bill => {
+      const actual = actualByUnit.get(bill.unitId);
 
-    await this.prisma.bill.createMany({
-      data: billsData,
+      return {
+        unitId: bill.unitId,
+        unitName: bill.unitName,
+        blockName: bill.blockName,
+        consumption: bill.consumption,
+        individualCost: bill.individualCost,
+        commonAreaCost: bill.commonAreaCost,
+        totalCost: bill.totalCost,
+        actualTotalCost: actual?.totalCost ?? null,
+        delta: actual ? bill.totalCost.minus(actual.totalCost) : null,
+      };
     });
 
-    // Update period status to CLOSED
-    await this.prisma.period.update({
-      where: { id: periodId },
-      data: {
-        status: PeriodStatus.CLOSED,
-        endDate: new Date(),
+    // Units billed for real but left out of the simulation (e.g. missing readings)
+    const simulatedUnitIds = new Set(result.bills.map(bill => bill.unitId));
+    const unbilledUnits = actualBills
+      .filter(bill => !simulatedUnitIds.has(bill.unitId))
+      .map(bill => ({
+        unitId: bill.unitId,
+        unitName: bill.unit.name,
+        blockName: bill.unit.block.name,
+        consumption: null,
+        individualCost: null,
+        commonAreaCost: null,
+        totalCost: null,
+        actualTotalCost: bill.totalCost,
+        delta: bill.totalCost.negated(),
+      }));
+
+    const simulatedTotal = sumMoney(result.bills.map(bill => bill.totalCost));
+    const actualTotal = actualBills.length > 0 ? sumMoney(actualBills.map(bill => bill.totalCost)) : null;
+
+    return {
+      periodId,
+      distributionStrategy: result.distributionStrategy,
+      costPerCubicMeter: result.costPerCubicMeter,
+      commonAreaConsumption: result.commonAreaConsumption,
+      measuredCommonConsumption: result.measuredCommonConsumption,
+      unexplainedLoss: result.unexplainedLoss,
+      commonAreaTotalCost: result.commonAreaTotalCost,
+      rates: result.inputs.rates,
+      receipt: result.inputs.receipt,
+      totals: {
+        simulated: simulatedTotal,
+        actual: actualTotal,
+        delta: actualTotal ? simulatedTotal.minus(actualTotal) : null,
       },
+      units: [...units, ...unbilledUnits],
+      anomalies: result.anomalies,
+    };
+  }
+
+  async saveBills(periodId: string, calculationResult: CalculationResult, userId?: string) {
+    return this.prisma.$transaction(async (tx) => {
+      // Snapshot the run before replacing the bills, so earlier charges stay on record
+      const version = await this.versionService.createVersion(
+        periodId,
+        calculationResult.inputs,
+        buildVersionResult(calculationResult),
+        userId,
+        tx
+      );
+
+      // Notes adjust issued bills, so those bills must not be replaced
+      const notes = await tx.billNote.count({
+        where: { bill: { periodId } },
+      });
+
+      if (notes > 0) {
+        throw new Error('Bills of this period have credit or debit notes; correct them with further notes instead of recalculating');
+      }
+
+      const payments = await tx.paymentAllocation.count({
+        where: { bill: { periodId } },
+      });
+
+      if (payments > 0) {
+        throw new Error('Bills of this period already have payments applied; correct them with credit or debit notes instead of recalculating');
+      }
+
+      // Delete existing bills for this period
+      await tx.bill.deleteMany({
+        where: { periodId },
+      });
+
+      // The previous balance only informs the total due; older bills keep their own debt
+      const period = await tx.period.findUnique({
+        where: { id: periodId },
+        select: { condominium: { select: { carryForwardBalance: true } } },
+      });
+      const carriedBalances = period.condominium.carryForwardBalance
+        ? await this.ledgerService.getCarriedBalances(calculationResult.bills.map(bill => bill.unitId), periodId, tx)
+        : null;
+
+      // Create new bills
+      const billsData = calculationResult.bills.map(bill => ({
+        periodId,
+        unitId: bill.unitId,
+        currentReading: bill.currentReading,
+        previousReading: bill.previousReading,
+        consumption: bill.consumption,
+        individualCost: bill.individualCost,
+        commonAreaCost: bill.commonAreaCost,
+        totalCost: bill.totalCost,
+        roundingAdjustment: bill.roundingAdjustment,
+        tierBreakdown: bill.tierBreakdown as any,
+        meterBreakdown: bill.meterBreakdown as any,
+        extraCharges: bill.extraCharges as any || [],
+        receiptCharges: bill.receiptCharges as any,
+        trueUpCredit: bill.trueUpCredit ?? null,
+        previousBalance: carriedBalances?.get(bill.unitId) ?? null,
+        totalDue: bill.totalCost.plus(carriedBalances?.get(bill.unitId) ?? ZERO),
+        status: BillStatus.PENDING,
+      }));
+
+      await tx.bill.createMany({
+        data: billsData,
+      });
+
+      const proratedBills = calculationResult.bills.filter(bill => bill.shares?.length);
+      if (proratedBills.length > 0) {
+        const savedBills = await tx.bill.findMany({
+          where: { periodId, unitId: { in: proratedBills.map(bill => bill.unitId) } },
+          select: { id: true, unitId: true },
+        });
+        const billIdByUnit = new Map(savedBills.map(bill => [bill.unitId, bill.id]));
+
+        await tx.billShare.createMany({
+          data: proratedBills.flatMap(bill => bill.shares.map(share => ({
+            billId: billIdByUnit.get(bill.unitId),
+            ...share,
+          }))),
+        });
+      }
+
+      // Unit calculations mirror the bills, so both always come from the same run
+      await tx.unitCalculation.deleteMany({
+        where: { periodId },
+      });
+
+      await tx.unitCalculation.createMany({
+        data: calculationResult.bills.map(bill => {
+          const activeMeters = bill.meterBreakdown.filter(meter => !meter.retiredAt);
+
+          return {
+            periodId,
+            unitId: bill.unitId,
+            meterId: activeMeters.length === 1 ? activeMeters[0].meterId : null,
+            previousReading: bill.previousReading,
+            currentReading: bill.currentReading,
+            consumption: bill.consumption,
+            individualAmount: bill.individualCost,
+            commonAreasAmount: bill.commonAreaCost,
+            totalAmount: bill.totalCost,
+            residentName: bill.residentName,
+          };
+        }),
+      });
+
+      // Record period-level totals, including the distribution strategy for auditing
+      const periodCalculationData = {
+        costPerCubicMeter: calculationResult.costPerCubicMeter,
+        totalIndividualConsumption: calculationResult.totalIndividualConsumption,
+        totalCommonAreasConsumption: calculationResult.commonAreaConsumption,
+        measuredCommonConsumption: calculationResult.measuredCommonConsumption,
+        unexplainedLoss: calculationResult.unexplainedLoss,
+        totalIndividualAmount: sumMoney(calculationResult.bills.map(bill => bill.individualCost)),
+        totalCommonAreasAmount: calculationResult.commonAreaTotalCost,
+        distributionStrategy: calculationResult.distributionStrategy,
+      };
+
+      await tx.periodCalculation.upsert({
+        where: { periodId },
+        create: { periodId, ...periodCalculationData },
+        update: { ...periodCalculationData, calculatedAt: new Date() },
+      });
+
+      // Update period status to CLOSED
+      await tx.period.update({
+        where: { id: periodId },
+        data: {
+          status: PeriodStatus.CLOSED,
+          endDate: new Date(),
+        },
+      });
+
+      // The payment term starts with the close just recorded
+      await this.billStatusService.assignDueDates(periodId, tx);
+
+      return version;
     });
   }
 
-  private async getWaterRates(): Promise<WaterRates> {
-    // Get rates from system configuration
-    const configs = await this.prisma.systemConfig.findMany({
+  /**
+   * Lists every submitted value that differs from the server calculation by more
+   * than `tolerance` (money), or by more than 0.001 m³ for consumption.
+   */
+  findMismatches(
+    result: CalculationResult,
+    submitted: SubmittedUnitCalculation[],
+    tolerance: Money
+  ): CalculationMismatch[] {
+    const mismatches: CalculationMismatch[] = [];
+    const billsByUnit = new Map(result.bills.map(bill => [bill.unitId, bill]));
+
+    for (const calc of submitted) {
+      const bill = billsByUnit.get(calc.unitId);
+
+      if (!bill) {
+        mismatches.push({ unitId: calc.unitId, field: 'unit', submitted: calc.unitId, calculated: null });
+        continue;
+      }
+
+      if (calc.consumption !== undefined && Math.abs(calc.consumption - bill.consumption) > 0.001) {
+        mismatches.push({ unitId: calc.unitId, field: 'consumption', submitted: calc.consumption, calculated: bill.consumption });
+      }
+
+      const amounts: [keyof Omit<SubmittedUnitCalculation, 'unitId' | 'consumption'>, Money][] = [
+        ['individualAmount', bill.individualCost],
+        ['commonAreasAmount', bill.commonAreaCost],
+        ['totalAmount', bill.totalCost],
+      ];
+
+      for (const [field, calculated] of amounts) {
+        const value = calc[field];
+        if (value !== undefined && value.minus(calculated).abs().gt(tolerance)) {
+          mismatches.push({ unitId: calc.unitId, field, submitted: value.toFixed(2), calculated: calculated.toFixed(2) });
+        }
+      }
+    }
+
+    return mismatches;
+  }
+
+  async findRateSetting(period: { id: string; condominiumId: string; utilityType: MeterType; startDate: Date }) {
+    // A rate defined for the specific period takes precedence
+    const periodRate = await this.prisma.rateSetting.findFirst({
+      where: { periodId: period.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (periodRate) {
+      return periodRate;
+    }
+
+    // Otherwise use the condominium rate in effect when the period started
+    return this.prisma.rateSetting.findFirst({
       where: {
-        key: {
-          in: ['water_basic_rate', 'water_common_area_rate', 'water_fixed_charge', 'water_minimum_consumption'],
-        },
+        condominiumId: period.condominiumId,
+        utilityType: period.utilityType,
+        periodId: null,
+        effectiveFrom: { lte: period.startDate },
+        OR: [
+          { effectiveTo: null },
+          { effectiveTo: { gt: period.startDate } },
+        ],
       },
+      orderBy: { effectiveFrom: 'desc' },
     });
+  }
 
-    const configMap = new Map(configs.map(c => [c.key, parseFloat(c.value)]));
+  private async getRates(
+    period: { id: string; condominiumId: string; utilityType: MeterType; startDate: Date },
+    options: CalculationOptions = {}
+  ): Promise<UtilityRates> {
+    const rateSetting = await this.findRateSetting(period);
+    const overrides = options.rates || {};
 
-    return {
-      basicRate: configMap.get('water_basic_rate') || 1.5, // Default $1.5 per m³
-      commonAreaRate: configMap.get('water_common_area_rate'),
-      fixedCharge: configMap.get('water_fixed_charge'),
-      minimumConsumption: configMap.get('water_minimum_consumption'),
+    if (!rateSetting && !overrides.tiers) {
+      throw new Error(`No ${period.utilityType.toLowerCase()} rate configured for this condominium and period`);
+    }
+
+    // An override of undefined keeps the stored value, null clears it
+    const rates: UtilityRates = {
+      rateSettingId: rateSetting?.id ?? null,
+      tiers: parseTariffTiers(overrides.tiers ?? rateSetting.tiers),
+      commonAreaRate: (overrides.commonAreaRate !== undefined ? overrides.commonAreaRate : rateSetting?.commonAreaRate) ?? undefined,
+      fixedCharge: (overrides.fixedCharge !== undefined ? overrides.fixedCharge : rateSetting?.fixedCharge) ?? undefined,
+      minimumConsumption: (overrides.minimumConsumption !== undefined ? overrides.minimumConsumption : rateSetting?.minimumConsumption) ?? undefined,
     };
+
+    if (options.rateAdjustmentPercent) {
+      const factor = toMoney(options.rateAdjustmentPercent).dividedBy(100).plus(1);
+      rates.tiers = rates.tiers.map(tier => ({ ...tier, rate: factor.times(tier.rate).toNumber() }));
+      rates.commonAreaRate = rates.commonAreaRate && roundMoney(rates.commonAreaRate.times(factor), 4);
+      rates.fixedCharge = rates.fixedCharge && roundMoney(rates.fixedCharge.times(factor));
+    }
+
+    return rates;
   }
 
   private async getPreviousReadings(
-    condominiumId: string,
+    period: { id: string; condominiumId: string; startDate: Date },
     meterIds: string[]
-  ): Promise<Map<string, { value: number; periodId: string }>> {
+  ): Promise<Map<string, { value: number; periodId: string; isEstimated: boolean }>> {
+    // Only periods before this one count, so closed periods can be recalculated or simulated
     const previousReadings = await this.prisma.reading.findMany({
       where: {
         meterId: { in: meterIds },
         period: {
-          condominiumId,
+          id: { not: period.id },
+          condominiumId: period.condominiumId,
           status: PeriodStatus.CLOSED,
+          startDate: { lt: period.startDate },
         },
       },
       orderBy: { createdAt: 'desc' },
@@ -292,25 +1002,122 @@ export class CalculationService {
     return new Map(
       previousReadings.map(reading => [
         reading.meterId,
-        { value: reading.value, periodId: reading.periodId },
+        { value: reading.value, periodId: reading.periodId, isEstimated: reading.isEstimated },
       ])
     );
   }
 
-  private calculateIndividualCost(consumption: number, rates: WaterRates): number {
-    let cost = consumption * rates.basicRate;
+  /**
+   * Credit per unit for the volume its estimated readings billed in excess, priced
+   * at the tariffs of the period that billed it.
+   */
+  private async getTrueUpCredits(bills: BillData[], anomalies: string[]): Promise<Map<string, Money>> {
+    const credits = new Map<string, Money>();
+
+    // Excess volume per unit and period it was billed in
+    const overestimates = new Map<string, { unitId: string; unitName: string; periodId: string; volume: number }>();
+    for (const bill of bills) {
+      for (const meter of bill.meterBreakdown) {
+        if (!meter.overestimate) {
+          continue;
+        }
+
+        const key = `${bill.unitId}|${meter.overestimate.periodId}`;
+        const entry = overestimates.get(key) ?? { unitId: bill.unitId, unitName: bill.unitName, periodId: meter.overestimate.periodId, volume: 0 };
+        entry.volume += meter.overestimate.volume;
+        overestimates.set(key, entry);
+      }
+    }
+
+    if (overestimates.size === 0) {
+      return credits;
+    }
+
+    const entries = Array.from(overestimates.values());
+    const periodIds = [...new Set(entries.map(entry => entry.periodId))];
+    const [periods, previousBills] = await Promise.all([
+      this.prisma.period.findMany({
+        where: { id: { in: periodIds } },
+        select: { id: true, condominiumId: true, utilityType: true, startDate: true },
+      }),
+      this.prisma.bill.findMany({
+        where: { periodId: { in: periodIds }, unitId: { in: entries.map(entry => entry.unitId) } },
+        select: { periodId: true, unitId: true, consumption: true },
+      }),
+    ]);
+
+    const tiersByPeriod = new Map<string, TariffTier[]>();
+    for (const estimatedPeriod of periods) {
+      try {
+        tiersByPeriod.set(estimatedPeriod.id, (await this.getRates(estimatedPeriod)).tiers);
+      } catch (error) {
+        anomalies.push(
+          `Overestimated consumption of the period starting ${estimatedPeriod.startDate.toISOString().slice(0, 10)} not credited: ${error.message}`
+        );
+      }
+    }
+
+    for (const entry of entries) {
+      const tiers = tiersByPeriod.get(entry.periodId);
+      if (!tiers) {
+        continue;
+      }
+
+      const billed = previousBills.find(bill => bill.periodId === entry.periodId && bill.unitId === entry.unitId)?.consumption ?? entry.volume;
+      const credit = priceOverestimate(billed, entry.volume, tiers);
+
+      if (credit.gt(ZERO)) {
+        credits.set(entry.unitId, (credits.get(entry.unitId) ?? ZERO).plus(credit));
+        anomalies.push(
+          `Credit of ${credit.toFixed(2)} for ${entry.volume.toFixed(2)} m³ overestimated for unit ${entry.unitName}`
+        );
+      }
+    }
+
+    return credits;
+  }
+
+  private calculateIndividualCost(
+    consumption: number,
+    rates: UtilityRates
+  ): { individualCost: Money; tierBreakdown: TierCharge[] } {
+    const { amount, breakdown } = applyTariffTiers(consumption, rates.tiers);
+    let cost = amount;
     
     if (rates.fixedCharge) {
-      cost += rates.fixedCharge;
+      cost = cost.plus(rates.fixedCharge);
     }
 
-    return Math.round(cost * 100) / 100; // Round to 2 decimal places
+    return {
+      individualCost: roundMoney(cost),
+      tierBreakdown: breakdown,
+    };
   }
 
-  private getExtraCharges(unitId: string, condominiumId: string): ExtraCharge[] {
-    // This could be expanded to get unit-specific or condominium-specific charges
-    // from a configuration table. For now, return empty array.
-    return [];
+  private async getExtraCharges(period: { id: string; condominiumId: string; utilityType: MeterType; startDate: Date }) {
+    const charges = await this.prisma.extraCharge.findMany({
+      where: {
+        condominiumId: period.condominiumId,
+        isActive: true,
+      },
+      include: {
+        startPeriod: { select: { startDate: true, utilityType: true } },
+        endPeriod: { select: { startDate: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return charges.filter(charge => {
+      // One-off charges only apply to the period they were created for
+      if (!charge.isRecurring) {
+        return charge.startPeriodId === period.id;
+      }
+
+      // Recurring charges follow the billing cycle of the utility they started in
+      return charge.startPeriod.utilityType === period.utilityType &&
+        charge.startPeriod.startDate <= period.startDate &&
+        (!charge.endPeriod || charge.endPeriod.startDate >= period.startDate);
+    });
   }
 
   async validatePeriodForCalculation(periodId: string): Promise<{
@@ -331,7 +1138,7 @@ export class CalculationService {
                   where: { isActive: true },
                   include: {
                     meters: {
-                      where: { isActive: true, type: 'WATER' },
+                      where: { isActive: true },
                     },
                   },
                 },
@@ -357,27 +1164,39 @@ export class CalculationService {
       errors.push('Total volume from receipt is required and must be positive');
     }
 
-    if (!period.totalAmount || period.totalAmount <= 0) {
+    if (!period.totalAmount || period.totalAmount.lte(0)) {
       errors.push('Total amount from receipt is required and must be positive');
     }
 
+    // Check rate configuration for the period's utility
+    const rateSetting = await this.findRateSetting(period);
+    if (!rateSetting) {
+      errors.push(`No ${period.utilityType.toLowerCase()} rate configured for this condominium and period`);
+    }
+
     // Check if all units have readings
     const activeUnits = period.condominium.blocks.flatMap(block => 
-      block.units.filter(unit => unit.isActive && unit.meters.length > 0).map(unit => ({
-        ...unit,
-        block: { name: block.name }
-      }))
+      block.units
+        .map(unit => ({
+          ...unit,
+          meters: unit.meters.filter(meter => meter.type === period.utilityType),
+          block: { name: block.name }
+        }))
+        .filter(unit => unit.isActive && unit.meters.length > 0)
     );
 
     const readingMeterIds = new Set(period.readings.map(r => r.meterId));
-    const missingReadings = activeUnits.filter(unit => 
-      !readingMeterIds.has(unit.meters[0].id)
+    const missingReadings = activeUnits.flatMap(unit =>
+      unit.meters
+        .filter(meter => !readingMeterIds.has(meter.id))
+        .map(meter => ({ unit, meter }))
     );
 
     if (missingReadings.length > 0) {
+      const missingUnits = new Set(missingReadings.map(({ unit }) => unit.id));
       errors.push(
-        `Missing readings for ${missingReadings.length} units: ${missingReadings
-          .map(u => `${u.block?.name || 'Unknown'}-${u.name}`)
+        `Missing readings for ${missingReadings.length} meters in ${missingUnits.size} units: ${missingReadings
+          .map(({ unit, meter }) => `${unit.block?.name || 'Unknown'}-${unit.name} (meter ${meter.serialNumber || meter.id})`)
           .join(', ')}`
       );
     }
@@ -431,20 +1250,43 @@ export class CalculationService {
       throw new Error('Period not found');
     }
 
-    const totalUnits = await this.prisma.unit.count({
-      where: {
-        block: {
+    const unitsWhere: Prisma.UnitWhereInput = {
+      block: {
+        condominiumId: period.condominiumId,
+      },
+      isActive: true,
+      meters: {
+        some: { isActive: true, type: period.utilityType },
+      },
+    };
+
+    // Units may have several meters, so a unit is pending while any of its meters lacks a reading
+    const [totalUnits, pendingUnits, pendingCommonMeters] = await Promise.all([
+      this.prisma.unit.count({ where: unitsWhere }),
+      this.prisma.unit.count({
+        where: {
+          ...unitsWhere,
+          meters: {
+            some: { isActive: true, type: period.utilityType, readings: { none: { periodId } } },
+          },
+        },
+      }),
+      this.prisma.meter.count({
+        where: {
           condominiumId: period.condominiumId,
+          isActive: true,
+          type: period.utilityType,
+          readings: { none: { periodId } },
         },
-        isActive: true,
-      },
-    });
+      }),
+    ]);
 
     const readingsSummary = {
       total: period.readings.length,
       totalUnits,
-      completed: period.readings.length,
-      pending: totalUnits - period.readings.length,
+      completed: totalUnits - pendingUnits,
+      pending: pendingUnits,
+      pendingCommonMeters,
       validated: period.readings.filter(r => r.isValidated).length,
       anomalous: period.readings.filter(r => r.isAnomalous).length,
     };
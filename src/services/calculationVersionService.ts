@@ -0,0 +1,238 @@
+import { Prisma, PrismaClient, CommonAreaDistribution } from '@prisma/client';
+import { CalculationResult } from './calculationService';
+import { sumMoney, toMoney } from '../utils/money';
+
+export interface VersionUnitResult {
+  unitId: string;
+  unitName: string;
+  blockName: string;
+  consumption: number;
+  individualAmount: string;
+  commonAreaAmount: string;
+  extraChargesAmount: string;
+  totalAmount: string;
+}
+
+export interface VersionResult {
+  costPerCubicMeter: string;
+  distributionStrategy: CommonAreaDistribution;
+  totalIndividualConsumption: number;
+  commonAreaConsumption: number;
+  measuredCommonConsumption?: number; // Absent in versions stored before common-area meters
+  unexplainedLoss?: number;
+  totalIndividualAmount: string;
+  commonAreaAmount: string;
+  totalAmount: string;
+  units: VersionUnitResult[];
+  anomalies: string[];
+}
+
+interface ValueChange<T> {
+  from: T | null;
+  to: T | null;
+  delta: T;
+}
+
+export interface UnitDiff {
+  unitId: string;
+  unitName: string;
+  blockName: string;
+  status: 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED';
+  consumption: ValueChange<number>;
+  individualAmount: ValueChange<string>;
+  commonAreaAmount: ValueChange<string>;
+  extraChargesAmount: ValueChange<string>;
+  totalAmount: ValueChange<string>;
+}
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+// Decimal values serialize as strings, so the stored JSON never holds floats for money
+const toJson = (value: unknown): Prisma.InputJsonValue => JSON.parse(JSON.stringify(value));
+
+const moneyChange = (from?: string, to?: string): ValueChange<string> => ({
+  from: from ?? null,
+  to: to ?? null,
+  delta: toMoney(to ?? 0).minus(from ?? 0).toFixed(2),
+});
+
+const volumeChange = (from?: number, to?: number): ValueChange<number> => ({
+  from: from ?? null,
+  to: to ?? null,
+  delta: Math.round(((to ?? 0) - (from ?? 0)) * 1000) / 1000,
+});
+
+export const buildVersionResult = (result: CalculationResult): VersionResult => {
+  const units = result.bills.map(bill => ({
+    unitId: bill.unitId,
+    unitName: bill.unitName,
+    blockName: bill.blockName,
+    consumption: bill.consumption,
+    individualAmount: bill.individualCost.toFixed(2),
+    commonAreaAmount: bill.commonAreaCost.toFixed(2),
+    extraChargesAmount: sumMoney((bill.extraCharges || []).map(charge => charge.total)).toFixed(2),
+    totalAmount: bill.totalCost.toFixed(2),
+  }));
+
+  return {
+    costPerCubicMeter: result.costPerCubicMeter.toFixed(4),
+    distributionStrategy: result.distributionStrategy,
+    totalIndividualConsumption: result.totalIndividualConsumption,
+    commonAreaConsumption: result.commonAreaConsumption,
+    measuredCommonConsumption: result.measuredCommonConsumption,
+    unexplainedLoss: result.unexplainedLoss,
+    totalIndividualAmount: sumMoney(units.map(unit => unit.individualAmount)).toFixed(2),
+    commonAreaAmount: sumMoney(units.map(unit => unit.commonAreaAmount)).toFixed(2),
+    totalAmount: sumMoney(units.map(unit => unit.totalAmount)).toFixed(2),
+    units,
+    anomalies: result.anomalies,
+  };
+};
+
+export class CalculationVersionService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Stores a new immutable version of the period calculation. Pass the
+   * transaction client when the version is part of a larger write.
+   */
+  async createVersion(
+    periodId: string,
+    inputs: unknown,
+    result: VersionResult,
+    createdById?: string,
+    client: DbClient = this.prisma
+  ) {
+    const latest = await client.calculationVersion.findFirst({
+      where: { periodId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    return client.calculationVersion.create({
+      data: {
+        periodId,
+        version: (latest?.version ?? 0) + 1,
+        inputs: toJson(inputs),
+        result: toJson(result),
+        createdById,
+      },
+    });
+  }
+
+  async listVersions(periodId: string) {
+    const versions = await this.prisma.calculationVersion.findMany({
+      where: { periodId },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    return versions.map(version => {
+      const { units, anomalies, ...totals } = version.result as unknown as VersionResult;
+
+      return {
+        id: version.id,
+        version: version.version,
+        createdAt: version.createdAt,
+        createdBy: version.createdBy,
+        unitCount: units.length,
+        anomalyCount: anomalies.length,
+        totals,
+      };
+    });
+  }
+
+  async getVersion(periodId: string, version: number) {
+    return this.prisma.calculationVersion.findUnique({
+      where: { periodId_version: { periodId, version } },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+  }
+
+  /**
+   * Compares two versions unit by unit, along with which inputs changed between them.
+   */
+  async diffVersions(periodId: string, fromVersion: number, toVersion: number) {
+    const [from, to] = await Promise.all([
+      this.getVersion(periodId, fromVersion),
+      this.getVersion(periodId, toVersion),
+    ]);
+
+    if (!from) {
+      throw new Error(`Calculation version ${fromVersion} not found`);
+    }
+
+    if (!to) {
+      throw new Error(`Calculation version ${toVersion} not found`);
+    }
+
+    const fromResult = from.result as unknown as VersionResult;
+    const toResult = to.result as unknown as VersionResult;
+    const fromUnits = new Map(fromResult.units.map(unit => [unit.unitId, unit]));
+    const toUnits = new Map(toResult.units.map(unit => [unit.unitId, unit]));
+    const unitIds = Array.from(new Set([...fromUnits.keys(), ...toUnits.keys()]));
+
+    const units: UnitDiff[] = unitIds.map(unitId => {
+      const before = fromUnits.get(unitId);
+      const after = toUnits.get(unitId);
+      const diff = {
+        consumption: volumeChange(before?.consumption, after?.consumption),
+        individualAmount: moneyChange(before?.individualAmount, after?.individualAmount),
+        commonAreaAmount: moneyChange(before?.commonAreaAmount, after?.commonAreaAmount),
+        extraChargesAmount: moneyChange(before?.extraChargesAmount, after?.extraChargesAmount),
+        totalAmount: moneyChange(before?.totalAmount, after?.totalAmount),
+      };
+
+      const changed = diff.consumption.delta !== 0 ||
+        [diff.individualAmount, diff.commonAreaAmount, diff.extraChargesAmount, diff.totalAmount]
+          .some(change => !toMoney(change.delta).isZero());
+
+      return {
+        unitId,
+        unitName: (after || before)!.unitName,
+        blockName: (after || before)!.blockName,
+        status: !before ? 'ADDED' : !after ? 'REMOVED' : changed ? 'CHANGED' : 'UNCHANGED',
+        ...diff,
+      };
+    });
+
+    const fromInputs = from.inputs as any;
+    const toInputs = to.inputs as any;
+    const fromReadings = new Map<string, number>((fromInputs.readings || []).map((reading: any) => [reading.meterId, reading.value]));
+    const toReadings = new Map<string, number>((toInputs.readings || []).map((reading: any) => [reading.meterId, reading.value]));
+    const changedReadings = Array.from(new Set([...fromReadings.keys(), ...toReadings.keys()]))
+      .filter(meterId => fromReadings.get(meterId) !== toReadings.get(meterId))
+      .map(meterId => ({
+        meterId,
+        from: fromReadings.get(meterId) ?? null,
+        to: toReadings.get(meterId) ?? null,
+      }));
+
+    return {
+      periodId,
+      from: { version: from.version, createdAt: from.createdAt, createdBy: from.createdBy },
+      to: { version: to.version, createdAt: to.createdAt, createdBy: to.createdBy },
+      inputs: {
+        receiptChanged: JSON.stringify(fromInputs.receipt) !== JSON.stringify(toInputs.receipt),
+        ratesChanged: JSON.stringify(fromInputs.rates) !== JSON.stringify(toInputs.rates),
+        changedReadings,
+      },
+      totals: {
+        totalIndividualConsumption: volumeChange(fromResult.totalIndividualConsumption, toResult.totalIndividualConsumption),
+        commonAreaConsumption: volumeChange(fromResult.commonAreaConsumption, toResult.commonAreaConsumption),
+        measuredCommonConsumption: volumeChange(fromResult.measuredCommonConsumption, toResult.measuredCommonConsumption),
+        unexplainedLoss: volumeChange(fromResult.unexplainedLoss, toResult.unexplainedLoss),
+        totalIndividualAmount: moneyChange(fromResult.totalIndividualAmount, toResult.totalIndividualAmount),
+        commonAreaAmount: moneyChange(fromResult.commonAreaAmount, toResult.commonAreaAmount),
+        totalAmount: moneyChange(fromResult.totalAmount, toResult.totalAmount),
+      },
+      units: units.sort((a, b) =>
+        a.blockName.localeCompare(b.blockName) || a.unitName.localeCompare(b.unitName)
+      ),
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import { PrismaClient, PeriodStatus } from '@prisma/client';
+import { calculateMeterConsumption } from '../utils/consumption';
+
+export interface PeriodConsumption {
+  periodId: string;
+  startDate: Date;
+  consumption: number;
+  isEstimated: boolean;
+}
+
+export class ConsumptionHistoryService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Consumption of a meter in each of its last closed periods, most recent first.
+   * Consumption is derived from consecutive readings, so `limit` periods need
+   * `limit + 1` readings.
+   */
+  async getMeterHistory(meterId: string, limit: number): Promise<PeriodConsumption[]> {
+    const meter = await this.prisma.meter.findUnique({
+      where: { id: meterId },
+      select: { maxDigits: true },
+    });
+
+    if (!meter) {
+      return [];
+    }
+
+    const readings = await this.prisma.reading.findMany({
+      where: {
+        meterId,
+        period: { status: PeriodStatus.CLOSED },
+      },
+      include: {
+        period: { select: { startDate: true } },
+      },
+      orderBy: { period: { startDate: 'desc' } },
+      take: limit + 1,
+    });
+
+    const history: PeriodConsumption[] = [];
+    for (let i = 0; i < readings.length - 1; i++) {
+      const current = readings[i];
+      const previous = readings[i + 1];
+      const { consumption } = calculateMeterConsumption(previous.value, current.value, meter.maxDigits);
+
+      history.push({
+        periodId: current.periodId,
+        startDate: current.period.startDate,
+        consumption,
+        isEstimated: current.isEstimated,
+      });
+    }
+
+    return history;
+  }
+}
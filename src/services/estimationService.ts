@@ -0,0 +1,144 @@
+import { PrismaClient, PeriodStatus } from '@prisma/client';
+import { ConsumptionHistoryService } from './consumptionHistoryService';
+import { getMeterCapacity } from '../utils/consumption';
+import { mean } from '../utils/statistics';
+
+interface EstimatedReading {
+  readingId: string;
+  meterId: string;
+  unitId: string;
+  unitName: string;
+  blockName: string;
+  previousValue: number;
+  estimatedConsumption: number;
+  value: number;
+  basedOnPeriods: number;
+}
+
+interface SkippedMeter {
+  meterId: string;
+  unitId: string;
+  unitName: string;
+  blockName: string;
+  reason: string;
+}
+
+export class EstimationService {
+  private history: ConsumptionHistoryService;
+
+  constructor(private prisma: PrismaClient) {
+    this.history = new ConsumptionHistoryService(prisma);
+  }
+
+  /**
+   * Creates estimated readings for every active water meter of the period's
+   * condominium that has no reading yet, using the meter's average consumption
+   * over its last `lookbackPeriods` closed periods.
+   */
+  async estimateMissingReadings(
+    periodId: string,
+    userId: string,
+    lookbackPeriods: number
+  ): Promise<{ estimated: EstimatedReading[]; skipped: SkippedMeter[] }> {
+    const period = await this.prisma.period.findUnique({
+      where: { id: periodId },
+      include: {
+        readings: { select: { meterId: true } },
+      },
+    });
+
+    if (!period) {
+      throw new Error('Period not found');
+    }
+
+    if (period.status === PeriodStatus.CLOSED) {
+      throw new Error('Cannot estimate readings for a closed period');
+    }
+
+    const readMeterIds = new Set(period.readings.map(r => r.meterId));
+
+    const meters = await this.prisma.meter.findMany({
+      where: {
+        isActive: true,
+        type: period.utilityType,
+        unit: {
+          isActive: true,
+          block: { condominiumId: period.condominiumId },
+        },
+      },
+      include: {
+        unit: {
+          include: {
+            block: { select: { name: true } },
+          },
+        },
+      },
+    });
+
+    const estimated: EstimatedReading[] = [];
+    const skipped: SkippedMeter[] = [];
+
+    for (const meter of meters.filter(m => !readMeterIds.has(m.id))) {
+      const unitInfo = {
+        meterId: meter.id,
+        unitId: meter.unitId,
+        unitName: meter.unit.name,
+        blockName: meter.unit.block.name,
+      };
+
+      // Only real readings are a reliable basis for a new estimate
+      const history = (await this.history.getMeterHistory(meter.id, lookbackPeriods))
+        .filter(entry => !entry.isEstimated);
+
+      if (history.length === 0) {
+        skipped.push({ ...unitInfo, reason: 'No consumption history in closed periods' });
+        continue;
+      }
+
+      const lastReading = await this.prisma.reading.findFirst({
+        where: {
+          meterId: meter.id,
+          period: {
+            condominiumId: period.condominiumId,
+            status: PeriodStatus.CLOSED,
+          },
+        },
+        orderBy: { period: { startDate: 'desc' } },
+      });
+
+      const previousValue = lastReading?.value ?? meter.initialReading;
+      const estimatedConsumption = Math.round(mean(history.map(entry => entry.consumption)) * 100) / 100;
+
+      // Wrap around like the physical meter would
+      const capacity = getMeterCapacity(meter.maxDigits);
+      let value = previousValue + estimatedConsumption;
+      if (capacity && value >= capacity) {
+        value -= capacity;
+      }
+
+      const reading = await this.prisma.reading.create({
+        data: {
+          meterId: meter.id,
+          periodId,
+          userId,
+          value,
+          isEstimated: true,
+          isValidated: true,
+          isAnomalous: false,
+          notes: `Estimated from average consumption of ${history.length} closed periods (${estimatedConsumption} m³)`,
+        },
+      });
+
+      estimated.push({
+        ...unitInfo,
+        readingId: reading.id,
+        previousValue,
+        estimatedConsumption,
+        value,
+        basedOnPeriods: history.length,
+      });
+    }
+
+    return { estimated, skipped };
+  }
+}
@@ -0,0 +1,134 @@
+import { PrismaClient, PeriodStatus } from '@prisma/client';
+import { Forecast, forecastNext } from '../utils/forecast';
+import { Money, roundMoney } from '../utils/money';
+
+export interface MoneyForecast {
+  expected: Money;
+  lower: Money;
+  upper: Money;
+  trend: Money;
+  basedOnPeriods: number;
+}
+
+export interface UnitForecast {
+  unitId: string;
+  unitName: string;
+  blockName: string;
+  consumption: Forecast;
+  amount: MoneyForecast;
+}
+
+interface SkippedUnit {
+  unitId: string;
+  unitName: string;
+  blockName: string;
+  reason: string;
+}
+
+export interface ForecastOptions {
+  lookbackPeriods?: number; // Closed periods used as history (default 6)
+  confidence?: number; // One of CONFIDENCE_Z_SCORES (default 95)
+}
+
+const toMoneyForecast = (forecast: Forecast | null): MoneyForecast | null => forecast && {
+  expected: roundMoney(forecast.expected),
+  lower: roundMoney(forecast.lower),
+  upper: roundMoney(forecast.upper),
+  trend: roundMoney(forecast.trend),
+  basedOnPeriods: forecast.basedOnPeriods,
+};
+
+export class ForecastService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Projects the consumption and amount of the given period per unit, from the
+   * unit calculations of earlier closed periods of the same utility, and for the
+   * whole condominium from the earlier receipts.
+   */
+  async forecastPeriod(periodId: string, options: ForecastOptions = {}) {
+    const { lookbackPeriods = 6, confidence = 95 } = options;
+
+    const period = await this.prisma.period.findUnique({
+      where: { id: periodId },
+      select: { id: true, condominiumId: true, utilityType: true, startDate: true, status: true },
+    });
+
+    if (!period) {
+      throw new Error('Period not found');
+    }
+
+    // Most recent first, then reversed so every series runs oldest first
+    const history = (await this.prisma.period.findMany({
+      where: {
+        condominiumId: period.condominiumId,
+        utilityType: period.utilityType,
+        status: PeriodStatus.CLOSED,
+        startDate: { lt: period.startDate },
+      },
+      include: {
+        periodCalculations: { select: { totalIndividualConsumption: true } },
+        unitCalculations: { select: { unitId: true, consumption: true, totalAmount: true } },
+      },
+      orderBy: { startDate: 'desc' },
+      take: lookbackPeriods,
+    })).reverse();
+
+    const receipts = history.filter(p => p.totalVolume !== null && p.totalAmount !== null);
+    const calculated = history.filter(p => p.periodCalculations);
+
+    const units = await this.prisma.unit.findMany({
+      where: {
+        isActive: true,
+        block: { condominiumId: period.condominiumId },
+        meters: { some: { isActive: true, type: period.utilityType } },
+      },
+      include: {
+        block: { select: { name: true } },
+      },
+      orderBy: [
+        { block: { name: 'asc' } },
+        { name: 'asc' },
+      ],
+    });
+
+    const unitForecasts: UnitForecast[] = [];
+    const skippedUnits: SkippedUnit[] = [];
+
+    for (const unit of units) {
+      const calculations = history
+        .map(p => p.unitCalculations.find(calc => calc.unitId === unit.id))
+        .filter(calc => calc);
+      const unitInfo = { unitId: unit.id, unitName: unit.name, blockName: unit.block.name };
+
+      if (calculations.length === 0) {
+        skippedUnits.push({ ...unitInfo, reason: 'No calculated periods for this unit' });
+        continue;
+      }
+
+      unitForecasts.push({
+        ...unitInfo,
+        consumption: forecastNext(calculations.map(calc => calc.consumption), confidence),
+        amount: toMoneyForecast(forecastNext(calculations.map(calc => calc.totalAmount.toNumber()), confidence)),
+      });
+    }
+
+    return {
+      periodId,
+      utilityType: period.utilityType,
+      status: period.status,
+      confidence,
+      basedOnPeriods: history.length,
+      condominium: {
+        receiptVolume: forecastNext(receipts.map(p => p.totalVolume), confidence),
+        receiptAmount: toMoneyForecast(forecastNext(receipts.map(p => p.totalAmount.toNumber()), confidence)),
+        individualConsumption: forecastNext(
+          calculated.map(p => p.periodCalculations.totalIndividualConsumption),
+          confidence
+        ),
+      },
+      units: unitForecasts,
+      skippedUnits,
+    };
+  }
+}
@@ -0,0 +1,227 @@
+import { Prisma, PrismaClient, BillNoteType, BillStatus } from '@prisma/client';
+import { Money, MoneyValue, ZERO, sumMoney } from '../utils/money';
+
+type DbClient = PrismaClient | Prisma.TransactionClient;
+
+export type LedgerEntryType = 'BILL' | 'CREDIT_NOTE' | 'DEBIT_NOTE' | 'PENALTY' | 'PAYMENT';
+
+export interface LedgerEntry {
+  date: Date;
+  type: LedgerEntryType;
+  billId: string | null; // null for a payment spread over several bills
+  referenceId: string; // Bill, note, penalty or payment
+  description: string;
+  debit: Money; // Increases what the unit owes
+  credit: Money; // Decreases it
+  balance: Money; // Running balance after this entry
+}
+
+interface NoteAmount {
+  type: BillNoteType;
+  amount: MoneyValue;
+}
+
+interface BillBalance {
+  totalCost: MoneyValue;
+  notes: NoteAmount[];
+  penalty?: { amount: MoneyValue } | null;
+  paymentAllocations: { amount: MoneyValue }[];
+}
+
+// Bill total after its credit and debit notes; the bill itself never changes
+export const getAdjustedTotal = (totalCost: MoneyValue, notes: NoteAmount[]): Money =>
+  sumMoney([
+    totalCost,
+    ...notes.map(note => note.type === BillNoteType.DEBIT ? note.amount : ZERO.minus(note.amount)),
+  ]);
+
+// What is still owed on a bill: adjusted total plus late fee, less the payments applied to it
+export const getBillOutstanding = (bill: BillBalance): Money =>
+  getAdjustedTotal(bill.totalCost, bill.notes)
+    .plus(bill.penalty?.amount ?? ZERO)
+    .minus(sumMoney(bill.paymentAllocations.map(allocation => allocation.amount)));
+
+export class LedgerService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Chronological account of a unit: bills, notes and late fees are charges,
+   * credit notes and payments are credits. A bill marked as paid without any
+   * recorded payment settles its total with the notes issued up to the payment,
+   * plus its late fee.
+   * A positive balance is owed by the unit, a negative one is in its favor.
+   */
+  async getUnitLedger(unitId: string) {
+    const [bills, payments] = await Promise.all([
+      this.prisma.bill.findMany({
+        where: { unitId },
+        include: {
+          notes: { orderBy: { createdAt: 'asc' } },
+          penalty: true,
+          paymentAllocations: { select: { id: true } },
+          period: { select: { startDate: true, utilityType: true } },
+        },
+      }),
+      this.prisma.payment.findMany({
+        where: { unitId },
+        include: {
+          allocations: { select: { billId: true } },
+        },
+      }),
+    ]);
+
+    const entries: Omit<LedgerEntry, 'balance'>[] = [];
+
+    for (const bill of bills) {
+      const periodLabel = `${bill.period.utilityType.toLowerCase()} period starting ${bill.period.startDate.toISOString().slice(0, 10)}`;
+
+      entries.push({
+        date: bill.createdAt,
+        type: 'BILL',
+        billId: bill.id,
+        referenceId: bill.id,
+        description: `Bill for ${periodLabel}`,
+        debit: bill.totalCost,
+        credit: ZERO,
+      });
+
+      for (const note of bill.notes) {
+        entries.push({
+          date: note.createdAt,
+          type: note.type === BillNoteType.CREDIT ? 'CREDIT_NOTE' : 'DEBIT_NOTE',
+          billId: bill.id,
+          referenceId: note.id,
+          description: note.reason,
+          debit: note.type === BillNoteType.DEBIT ? note.amount : ZERO,
+          credit: note.type === BillNoteType.CREDIT ? note.amount : ZERO,
+        });
+      }
+
+      if (bill.penalty) {
+        entries.push({
+          date: bill.penalty.calculatedAt,
+          type: 'PENALTY',
+          billId: bill.id,
+          referenceId: bill.penalty.id,
+          description: `Late fee, ${bill.penalty.daysLate} days late`,
+          debit: bill.penalty.amount,
+          credit: ZERO,
+        });
+      }
+
+      // Marked as paid by hand before payments were recorded
+      if (bill.status === BillStatus.PAID && bill.paymentAllocations.length === 0) {
+        const paidAt = bill.paidAt ?? bill.updatedAt;
+        const settled = getAdjustedTotal(bill.totalCost, bill.notes.filter(note => note.createdAt <= paidAt))
+          .plus(bill.penalty?.amount ?? ZERO);
+
+        entries.push({
+          date: paidAt,
+          type: 'PAYMENT',
+          billId: bill.id,
+          referenceId: bill.id,
+          description: `Payment of bill for ${periodLabel}`,
+          debit: ZERO,
+          credit: settled,
+        });
+      }
+    }
+
+    for (const payment of payments) {
+      entries.push({
+        date: payment.paidAt,
+        type: 'PAYMENT',
+        billId: payment.allocations.length === 1 ? payment.allocations[0].billId : null,
+        referenceId: payment.id,
+        description: [`Payment (${payment.method.toLowerCase().replace('_', ' ')})`, payment.reference]
+          .filter(part => part)
+          .join(' '),
+        debit: ZERO,
+        credit: payment.amount,
+      });
+    }
+
+    entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    let balance = ZERO;
+    const ledger: LedgerEntry[] = entries.map(entry => {
+      balance = balance.plus(entry.debit).minus(entry.credit);
+      return { ...entry, balance };
+    });
+
+    return {
+      unitId,
+      balance,
+      entries: ledger,
+    };
+  }
+
+  /**
+   * What each unit owes on its bills outside the given period, less the payments
+   * not yet applied to any bill. Negative when the unit has credit. Bills are
+   * taken by their outstanding amount rather than their status, since notes
+   * issued after a bill was paid leave its status unchanged. Bills marked as
+   * paid by hand, with no payment recorded, are settled.
+   */
+  async getCarriedBalances(unitIds: string[], excludePeriodId: string, client: DbClient = this.prisma) {
+    const [bills, payments] = await Promise.all([
+      client.bill.findMany({
+        where: {
+          unitId: { in: unitIds },
+          periodId: { not: excludePeriodId },
+          NOT: { status: BillStatus.PAID, paymentAllocations: { none: {} } },
+        },
+        include: {
+          notes: true,
+          penalty: true,
+          paymentAllocations: true,
+        },
+      }),
+      client.payment.findMany({
+        where: { unitId: { in: unitIds } },
+        include: { allocations: true },
+      }),
+    ]);
+
+    const balances = new Map<string, Money>(unitIds.map(unitId => [unitId, ZERO]));
+
+    for (const bill of bills.filter(bill => !getBillOutstanding(bill).isZero())) {
+      balances.set(bill.unitId, balances.get(bill.unitId).plus(getBillOutstanding(bill)));
+    }
+
+    for (const payment of payments) {
+      const unallocated = payment.amount.minus(sumMoney(payment.allocations.map(allocation => allocation.amount)));
+      balances.set(payment.unitId, balances.get(payment.unitId).minus(unallocated));
+    }
+
+    return balances;
+  }
+
+  /**
+   * Account statement of a unit between two dates: the balance carried in, the
+   * entries of the range with their running balance, and the totals charged and
+   * credited in it.
+   */
+  async getUnitStatement(unitId: string, from?: Date, to?: Date) {
+    const { entries } = await this.getUnitLedger(unitId);
+
+    const before = from ? entries.filter(entry => entry.date < from) : [];
+    const inRange = entries.filter(entry =>
+      (!from || entry.date >= from) && (!to || entry.date <= to)
+    );
+
+    const openingBalance = before.length > 0 ? before[before.length - 1].balance : ZERO;
+    const closingBalance = inRange.length > 0 ? inRange[inRange.length - 1].balance : openingBalance;
+
+    return {
+      unitId,
+      from: from ?? null,
+      to: to ?? null,
+      openingBalance,
+      totalCharges: sumMoney(inRange.map(entry => entry.debit)),
+      totalCredits: sumMoney(inRange.map(entry => entry.credit)),
+      closingBalance,
+      entries: inRange,
+    };
+  }
+}
@@ -0,0 +1,323 @@
+import { Prisma, PrismaClient, BankMovementStatus, BillNoteType, BillStatus, PaymentMethod } from '@prisma/client';
+import { Money, MoneyValue, ZERO, sumMoney, toMoney } from '../utils/money';
+import { planAllocations, planCreditTransfers } from '../utils/allocation';
+import { getBillOutstanding } from './ledgerService';
+
+export interface AllocationInput {
+  billId: string;
+  amount: MoneyValue;
+}
+
+export interface PaymentInput {
+  unitId: string;
+  amount: MoneyValue;
+  method: PaymentMethod;
+  reference?: string | null;
+  paidAt: Date;
+  notes?: string | null;
+  allocations?: AllocationInput[]; // Oldest bills first when omitted
+}
+
+const billBalanceInclude = {
+  notes: true,
+  penalty: true,
+  paymentAllocations: true,
+} satisfies Prisma.BillInclude;
+
+// Bills marked as paid by hand, with no payment recorded, are settled whatever their notes say
+export const openBillsWhere = (where: Prisma.BillWhereInput): Prisma.BillWhereInput => ({
+  ...where,
+  NOT: { status: BillStatus.PAID, paymentAllocations: { none: {} } },
+});
+
+const openBillsOrderBy: Prisma.BillOrderByWithRelationInput[] = [
+  { dueDate: { sort: 'asc', nulls: 'last' } },
+  { createdAt: 'asc' },
+];
+
+const paymentInclude = {
+  allocations: {
+    include: {
+      bill: {
+        select: {
+          id: true,
+          status: true,
+          totalCost: true,
+          totalDue: true,
+          dueDate: true,
+          period: { select: { startDate: true, utilityType: true } },
+        },
+      },
+    },
+  },
+  recordedBy: { select: { id: true, name: true } },
+} satisfies Prisma.PaymentInclude;
+
+export class PaymentService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Records a payment of a unit and applies it to its unpaid bills, either as
+   * given or oldest due first. What is not applied stays in the unit's favor.
+   * Bills left with nothing outstanding are marked as paid.
+   * Paying a bill's total due, which includes the carried balance, this way
+   * settles the older bills too: credit left on bills and from earlier payments
+   * is applied first, then the new payment.
+   * Runs in its own transaction unless one is given.
+   */
+  async recordPayment(input: PaymentInput, recordedById: string, tx?: Prisma.TransactionClient) {
+    if (!tx) {
+      return this.prisma.$transaction(client => this.recordPayment(input, recordedById, client));
+    }
+
+    const payment = await tx.payment.create({
+      data: {
+        unitId: input.unitId,
+        amount: input.amount,
+        method: input.method,
+        reference: input.reference,
+        paidAt: input.paidAt,
+        notes: input.notes,
+        recordedById,
+      },
+    });
+
+    if (!input.allocations) {
+      const earlierPayments = await tx.payment.findMany({
+        where: { unitId: input.unitId, id: { not: payment.id } },
+        include: { allocations: { select: { amount: true } } },
+        orderBy: { paidAt: 'asc' },
+      });
+
+      for (const earlier of earlierPayments) {
+        if (earlier.amount.gt(sumMoney(earlier.allocations.map(allocation => allocation.amount)))) {
+          await this.allocate(tx, earlier);
+        }
+      }
+    }
+
+    await this.allocate(tx, payment, input.allocations);
+
+    return this.getPaymentDetails(tx, payment.id);
+  }
+
+  /**
+   * Applies what is left of a payment to the unit's unpaid bills, oldest due
+   * first, e.g. an advance payment once the next bills are issued.
+   * Runs in its own transaction unless one is given.
+   */
+  async allocateRemaining(paymentId: string, tx?: Prisma.TransactionClient) {
+    if (!tx) {
+      return this.prisma.$transaction(client => this.allocateRemaining(paymentId, client));
+    }
+
+    const payment = await tx.payment.findUnique({
+      where: { id: paymentId },
+    });
+
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    await this.allocate(tx, payment);
+
+    return this.getPaymentDetails(tx, payment.id);
+  }
+
+  /**
+   * Removes a payment recorded by mistake. Bills it had settled go back to
+   * pending, or overdue if already past their due date.
+   */
+  async voidPayment(paymentId: string, asOf: Date = new Date()) {
+    return this.prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findUnique({
+        where: { id: paymentId },
+        include: { allocations: true },
+      });
+
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+
+      // Statement movements it came from can be confirmed again
+      await tx.bankMovement.updateMany({
+        where: { paymentId },
+        data: { status: BankMovementStatus.PROPOSED, paymentId: null },
+      });
+
+      await tx.payment.delete({
+        where: { id: paymentId },
+      });
+
+      const bills = await tx.bill.findMany({
+        where: {
+          id: { in: payment.allocations.map(allocation => allocation.billId) },
+          status: BillStatus.PAID,
+        },
+        include: billBalanceInclude,
+      });
+
+      const reopened = [];
+      for (const bill of bills) {
+        if (getBillOutstanding(bill).lte(ZERO)) {
+          continue;
+        }
+
+        reopened.push(await tx.bill.update({
+          where: { id: bill.id },
+          data: {
+            status: bill.dueDate && bill.dueDate < asOf ? BillStatus.OVERDUE : BillStatus.PENDING,
+            statusChangedAt: asOf,
+            paidAt: null,
+          },
+          select: { id: true, status: true },
+        }));
+      }
+
+      return { payment, reopenedBills: reopened };
+    });
+  }
+
+  /**
+   * Uses the credit left on a unit's bills, e.g. a credit note issued after a bill
+   * was paid, to pay its bills that still owe, oldest due first. Each transfer is
+   * recorded as a debit note on the bill the credit comes from and a credit note
+   * on the bill it pays, so the unit's balance is unchanged.
+   * Runs in its own transaction unless one is given.
+   */
+  async applyCredits(unitId: string, createdById: string, tx?: Prisma.TransactionClient) {
+    if (!tx) {
+      return this.prisma.$transaction(client => this.applyCredits(unitId, createdById, client));
+    }
+
+    const bills = await tx.bill.findMany({
+      where: openBillsWhere({ unitId }),
+      include: billBalanceInclude,
+      orderBy: openBillsOrderBy,
+    });
+
+    const transfers = planCreditTransfers(bills.map(bill => ({ billId: bill.id, outstanding: getBillOutstanding(bill) })));
+    const outstanding = new Map(bills.map(bill => [bill.id, getBillOutstanding(bill)]));
+
+    for (const transfer of transfers) {
+      await tx.billNote.createMany({
+        data: [
+          {
+            billId: transfer.fromBillId,
+            type: BillNoteType.DEBIT,
+            amount: transfer.amount,
+            reason: `Credit applied to bill ${transfer.toBillId}`,
+            createdById,
+          },
+          {
+            billId: transfer.toBillId,
+            type: BillNoteType.CREDIT,
+            amount: transfer.amount,
+            reason: `Credit from bill ${transfer.fromBillId}`,
+            createdById,
+          },
+        ],
+      });
+
+      const left = outstanding.get(transfer.toBillId).minus(transfer.amount);
+      outstanding.set(transfer.toBillId, left);
+
+      if (left.lte(ZERO)) {
+        await tx.bill.update({
+          where: { id: transfer.toBillId },
+          data: {
+            status: BillStatus.PAID,
+            statusChangedAt: new Date(),
+            paidAt: new Date(),
+          },
+        });
+      }
+    }
+
+    return transfers;
+  }
+
+  private async allocate(
+    tx: Prisma.TransactionClient,
+    payment: { id: string; unitId: string; amount: Prisma.Decimal; paidAt: Date; recordedById: string },
+    requested?: AllocationInput[]
+  ) {
+    if (!requested) {
+      await this.applyCredits(payment.unitId, payment.recordedById, tx);
+    }
+
+    const applied = await tx.paymentAllocation.aggregate({
+      where: { paymentId: payment.id },
+      _sum: { amount: true },
+    });
+    const remaining = payment.amount.minus(applied._sum.amount ?? ZERO);
+
+    // By outstanding amount rather than status: a debit note on a paid bill leaves it marked as paid
+    const bills = await tx.bill.findMany({
+      where: openBillsWhere({ unitId: payment.unitId }),
+      include: billBalanceInclude,
+      orderBy: openBillsOrderBy,
+    });
+
+    const allocations: { bill: typeof bills[number]; amount: Money }[] = [];
+
+    if (requested) {
+      const total = sumMoney(requested.map(allocation => allocation.amount));
+      if (total.gt(remaining)) {
+        throw new Error(`Allocations of ${total.toFixed(2)} exceed the payment's available ${remaining.toFixed(2)}`);
+      }
+
+      for (const allocation of requested) {
+        const bill = bills.find(b => b.id === allocation.billId);
+        if (!bill) {
+          throw new Error(`Bill ${allocation.billId} is not a bill of this unit`);
+        }
+
+        const outstanding = getBillOutstanding(bill);
+        const amount = toMoney(allocation.amount);
+        if (amount.gt(outstanding)) {
+          throw new Error(`Allocation of ${amount.toFixed(2)} exceeds the ${outstanding.toFixed(2)} outstanding on bill ${bill.id}`);
+        }
+
+        allocations.push({ bill, amount });
+      }
+    } else {
+      const planned = planAllocations(remaining, bills.map(bill => ({ billId: bill.id, outstanding: getBillOutstanding(bill) })));
+      for (const allocation of planned) {
+        allocations.push({ bill: bills.find(bill => bill.id === allocation.billId), amount: allocation.amount });
+      }
+    }
+
+    for (const { bill, amount } of allocations) {
+      await tx.paymentAllocation.upsert({
+        where: { paymentId_billId: { paymentId: payment.id, billId: bill.id } },
+        create: { paymentId: payment.id, billId: bill.id, amount },
+        update: { amount: { increment: amount } },
+      });
+
+      const outstanding = getBillOutstanding(bill).minus(amount);
+      if (outstanding.lte(ZERO)) {
+        await tx.bill.update({
+          where: { id: bill.id },
+          data: {
+            status: BillStatus.PAID,
+            statusChangedAt: new Date(),
+            paidAt: payment.paidAt,
+          },
+        });
+      }
+    }
+  }
+
+  private async getPaymentDetails(tx: Prisma.TransactionClient, paymentId: string) {
+    const payment = await tx.payment.findUnique({
+      where: { id: paymentId },
+      include: paymentInclude,
+    });
+
+    return {
+      ...payment,
+      unallocated: payment.amount.minus(sumMoney(payment.allocations.map(allocation => allocation.amount))),
+    };
+  }
+}
@@ -0,0 +1,100 @@
+import { PrismaClient, BillNoteType, BillStatus } from '@prisma/client';
+import { calculateAccruedPenalty } from '../utils/penalties';
+import { ZERO, sumMoney } from '../utils/money';
+import { getAdjustedTotal } from './ledgerService';
+
+export class PenaltyService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Recalculates the penalty of every overdue bill of the condominium as of `asOf`.
+   * Interest accrues on what was owed of the bill total, after its credit and debit
+   * notes and payments, on each day it was late. Lateness is counted from
+   * the bill's due date, or the date it was issued if it has none. Paid bills,
+   * and bills whose total is already covered, keep the penalty they had.
+   */
+  async applyPenalties(condominiumId: string, asOf: Date = new Date()) {
+    const rule = await this.prisma.lateFeeRule.findUnique({
+      where: { condominiumId },
+    });
+
+    if (!rule || !rule.isActive) {
+      throw new Error('No active late fee rule for this condominium');
+    }
+
+    const bills = await this.prisma.bill.findMany({
+      where: {
+        status: BillStatus.OVERDUE,
+        period: { condominiumId },
+      },
+      include: {
+        notes: true,
+        paymentAllocations: {
+          include: { payment: { select: { paidAt: true } } },
+        },
+        unit: {
+          include: {
+            block: { select: { name: true } },
+          },
+        },
+      },
+    });
+
+    const penalties = [];
+
+    for (const bill of bills) {
+      const paid = sumMoney(bill.paymentAllocations.map(allocation => allocation.amount));
+      const principal = getAdjustedTotal(bill.totalCost, bill.notes).minus(paid);
+
+      // Nothing left owed but the penalty itself
+      if (principal.lte(ZERO)) {
+        continue;
+      }
+
+      const penalty = calculateAccruedPenalty(
+        [
+          { date: bill.createdAt, amount: bill.totalCost },
+          ...bill.notes.map(note => ({
+            date: note.createdAt,
+            amount: note.type === BillNoteType.DEBIT ? note.amount : note.amount.negated(),
+          })),
+          ...bill.paymentAllocations.map(allocation => ({
+            date: allocation.payment.paidAt,
+            amount: allocation.amount.negated(),
+          })),
+        ],
+        bill.dueDate ?? bill.createdAt,
+        asOf,
+        rule
+      );
+
+      // Still within the grace period
+      if (penalty.amount.isZero()) {
+        continue;
+      }
+
+      const data = { ...penalty, calculatedAt: asOf };
+      const saved = await this.prisma.billPenalty.upsert({
+        where: { billId: bill.id },
+        create: { billId: bill.id, ...data },
+        update: data,
+      });
+
+      penalties.push({
+        ...saved,
+        unitId: bill.unitId,
+        unitName: bill.unit.name,
+        blockName: bill.unit.block.name,
+        principal,
+      });
+    }
+
+    return {
+      asOf,
+      ruleId: rule.id,
+      overdueBills: bills.length,
+      penalties,
+      totalPenalties: sumMoney(penalties.map(penalty => penalty.amount)),
+    };
+  }
+}
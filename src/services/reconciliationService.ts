@@ -0,0 +1,417 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient, BankMovementStatus, BankName, BillStatus, PaymentMethod } from '@prisma/client';
+import { BankStatementRow, isSameAccount, normalizeAccountNumber, parseBankStatement } from '../utils/bankStatements';
+import { Money, ZERO } from '../utils/money';
+import { getBillOutstanding } from './ledgerService';
+import { PaymentService, openBillsWhere } from './paymentService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Points per matching criterion; a proposal needs at least the amount or two others
+const MATCH_SCORES = {
+  AMOUNT: 50,
+  REFERENCE: 40,
+  UNIT_CODE: 30,
+  DATE_WINDOW: 20,
+};
+const MIN_PROPOSAL_SCORE = 50;
+
+export type MatchCriterion = keyof typeof MATCH_SCORES;
+
+export interface MatchReason {
+  criterion: MatchCriterion;
+  detail: string;
+}
+
+export interface ImportOptions {
+  csv: string;
+  bank?: BankName; // Detected from the columns when omitted
+  fileName?: string;
+  dateWindowDays?: number; // Days after the due date a deposit still matches a bill (default 30)
+}
+
+export interface ConfirmOptions {
+  billId?: string; // Overrides the proposed bill
+  unitId?: string; // Pay the unit's oldest bills instead of a given bill
+}
+
+interface CandidateBill {
+  id: string;
+  unitId: string;
+  unitCodes: string[];
+  createdAt: Date;
+  dueDate: Date | null;
+  outstanding: Money;
+  totalDue: Money;
+}
+
+// Alphanumeric tokens, with neighbours joined too so "A 101" and "A-101" read as "A101"
+const tokenize = (text: string): Set<string> => {
+  const words = text.toUpperCase().split(/[^A-Z0-9]+/).filter(word => word);
+  const tokens = new Set(words);
+  for (let i = 0; i < words.length - 1; i++) {
+    tokens.add(words[i] + words[i + 1]);
+  }
+  return tokens;
+};
+
+// Codes a resident may write in the transfer: "A101" for unit 101 of block A, or the unit name
+const getUnitCodes = (blockName: string, unitName: string): string[] => {
+  const unit = unitName.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const block = blockName.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const codes = [block + unit];
+  // A bare "1" or "A" would match almost any description
+  if (unit.length >= 3 && /\d/.test(unit)) {
+    codes.push(unit);
+  }
+  return codes;
+};
+
+/**
+ * Identifies a movement across imports. Identical rows of one file (e.g. two
+ * deposits of the same amount on the same day without an operation number) are
+ * told apart by their position among them, which a re-export of the same days
+ * repeats.
+ */
+const getFingerprints = (account: string, rows: BankStatementRow[]): string[] => {
+  const occurrences = new Map<string, number>();
+
+  return rows.map(row => {
+    const key = [normalizeAccountNumber(account), row.date.toISOString(), row.amount.toFixed(2), row.reference ?? '', row.description].join('|');
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+
+    return crypto.createHash('sha256').update(`${key}|${occurrence}`).digest('hex');
+  });
+};
+
+export class ReconciliationService {
+  private paymentService: PaymentService;
+
+  constructor(private prisma: PrismaClient) {
+    this.paymentService = new PaymentService(prisma);
+  }
+
+  /**
+   * Imports a bank statement CSV for the condominium's bank account and proposes
+   * a bill for each deposit. Movements of other accounts and movements already
+   * imported are left out.
+   */
+  async importStatement(condominiumId: string, options: ImportOptions, importedById: string) {
+    const condominium = await this.prisma.condominium.findUnique({
+      where: { id: condominiumId },
+      select: { bankAccount: true },
+    });
+
+    if (!condominium) {
+      throw new Error('Condominium not found');
+    }
+
+    if (!condominium.bankAccount) {
+      throw new Error('Set the condominium bank account before importing statements');
+    }
+
+    const statement = parseBankStatement(options.csv, options.bank);
+
+    if (statement.accountNumber && !isSameAccount(statement.accountNumber, condominium.bankAccount)) {
+      throw new Error(`The statement is for account ${statement.accountNumber}, not the condominium account ${condominium.bankAccount}`);
+    }
+
+    // Some exports list every account of the customer in one file
+    const rows = statement.rows.filter(row => !row.account || isSameAccount(row.account, condominium.bankAccount));
+
+    const fingerprints = getFingerprints(condominium.bankAccount, rows);
+    const movements = rows.map((row, index) => ({
+      condominiumId,
+      date: row.date,
+      description: row.description,
+      reference: row.reference,
+      amount: row.amount,
+      fingerprint: fingerprints[index],
+    }));
+
+    const existing = await this.prisma.bankMovement.findMany({
+      where: { condominiumId, fingerprint: { in: movements.map(movement => movement.fingerprint) } },
+      select: { fingerprint: true },
+    });
+    // Only movements of earlier imports are duplicates
+    const imported = new Set(existing.map(movement => movement.fingerprint));
+    const newMovements = movements.filter(movement => !imported.has(movement.fingerprint));
+
+    const statementImport = await this.prisma.bankStatementImport.create({
+      data: {
+        condominiumId,
+        bank: statement.bank,
+        accountNumber: statement.accountNumber,
+        fileName: options.fileName,
+        importedById,
+        movements: {
+          create: newMovements,
+        },
+      },
+    });
+
+    await this.matchMovements(statementImport.id, options.dateWindowDays);
+
+    return {
+      import: await this.getImport(statementImport.id),
+      summary: {
+        rows: statement.rows.length,
+        otherAccounts: statement.rows.length - rows.length,
+        duplicates: rows.length - newMovements.length,
+        skippedLines: statement.skippedLines,
+      },
+    };
+  }
+
+  /**
+   * Scores each deposit of the import that is not confirmed or ignored against
+   * the condominium's unpaid bills, by amount, bill reference, unit code and
+   * date, and proposes the best bill when it is the only one with that score.
+   */
+  async matchMovements(importId: string, dateWindowDays: number = 30) {
+    const movements = await this.prisma.bankMovement.findMany({
+      where: {
+        importId,
+        status: { in: [BankMovementStatus.UNMATCHED, BankMovementStatus.PROPOSED] },
+        amount: { gt: 0 },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    if (movements.length === 0) {
+      return;
+    }
+
+    // By outstanding amount rather than status, as payments are allocated
+    const bills = await this.prisma.bill.findMany({
+      where: openBillsWhere({ period: { condominiumId: movements[0].condominiumId } }),
+      include: {
+        notes: true,
+        penalty: true,
+        paymentAllocations: true,
+        unit: {
+          select: { name: true, block: { select: { name: true } } },
+        },
+      },
+    });
+
+    const candidates: CandidateBill[] = bills.map(bill => ({
+      id: bill.id,
+      unitId: bill.unitId,
+      unitCodes: getUnitCodes(bill.unit.block.name, bill.unit.name),
+      createdAt: bill.createdAt,
+      dueDate: bill.dueDate,
+      outstanding: getBillOutstanding(bill),
+      totalDue: bill.totalDue,
+    })).filter(bill => bill.outstanding.gt(ZERO));
+
+    // Each bill is proposed for one deposit only
+    const proposedBills = new Set<string>();
+
+    for (const movement of movements) {
+      const tokens = tokenize(`${movement.description} ${movement.reference ?? ''}`);
+
+      const scored = candidates
+        .filter(bill => !proposedBills.has(bill.id))
+        .map(bill => {
+          const reasons = this.scoreBill(bill, movement.amount, movement.date, tokens, dateWindowDays);
+          return {
+            bill,
+            reasons,
+            score: reasons.reduce((sum, reason) => sum + MATCH_SCORES[reason.criterion], 0),
+          };
+        })
+        .sort((a, b) => b.score - a.score);
+
+      const [best, second] = scored;
+      const isProposal = best && best.score >= MIN_PROPOSAL_SCORE && (!second || second.score < best.score);
+
+      if (isProposal) {
+        proposedBills.add(best.bill.id);
+      }
+
+      await this.prisma.bankMovement.update({
+        where: { id: movement.id },
+        data: isProposal
+          ? {
+            status: BankMovementStatus.PROPOSED,
+            billId: best.bill.id,
+            unitId: best.bill.unitId,
+            matchScore: best.score,
+            matchReasons: best.reasons as unknown as Prisma.InputJsonValue,
+          }
+          : {
+            status: BankMovementStatus.UNMATCHED,
+            billId: null,
+            unitId: null,
+            matchScore: best?.score ?? null,
+            matchReasons: Prisma.DbNull,
+          },
+      });
+    }
+  }
+
+  /**
+   * Records a deposit as a payment: applied to the proposed or given bill first,
+   * then to the unit's other unpaid bills oldest due first, so a deposit of a
+   * bill's total due also settles the balance carried onto it. Without a bill
+   * it goes to the unit's bills oldest first. Any amount left stays in the
+   * unit's favor.
+   */
+  async confirmMovement(movementId: string, options: ConfirmOptions, recordedById: string) {
+    return this.prisma.$transaction(async (tx) => {
+      const movement = await tx.bankMovement.findUnique({
+        where: { id: movementId },
+      });
+
+      if (!movement) {
+        throw new Error('Bank movement not found');
+      }
+
+      if (movement.status === BankMovementStatus.CONFIRMED) {
+        throw new Error('Bank movement is already recorded as a payment');
+      }
+
+      if (movement.amount.lte(ZERO)) {
+        throw new Error('Only deposits can be recorded as payments');
+      }
+
+      const billId = options.billId ?? (options.unitId ? null : movement.billId);
+      let unitId = options.unitId ?? movement.unitId;
+      let allocations;
+
+      if (billId) {
+        const bill = await tx.bill.findUnique({
+          where: { id: billId },
+          include: {
+            notes: true,
+            penalty: true,
+            paymentAllocations: true,
+            period: { select: { condominiumId: true } },
+          },
+        });
+
+        if (!bill || bill.period.condominiumId !== movement.condominiumId) {
+          throw new Error('Bill not found in this condominium');
+        }
+
+        const isSettled = bill.status === BillStatus.PAID && bill.paymentAllocations.length === 0;
+        if (isSettled || getBillOutstanding(bill).lte(ZERO)) {
+          throw new Error('Bill is already paid');
+        }
+
+        unitId = bill.unitId;
+        allocations = [{ billId: bill.id, amount: Prisma.Decimal.min(movement.amount, getBillOutstanding(bill)) }];
+      } else if (unitId) {
+        const unit = await tx.unit.findFirst({
+          where: { id: unitId, block: { condominiumId: movement.condominiumId } },
+          select: { id: true },
+        });
+
+        if (!unit) {
+          throw new Error('Unit not found in this condominium');
+        }
+      } else {
+        throw new Error('No bill proposed for this movement; choose a bill or unit');
+      }
+
+      let payment = await this.paymentService.recordPayment({
+        unitId,
+        amount: movement.amount,
+        method: PaymentMethod.BANK_TRANSFER,
+        reference: movement.reference ?? movement.description,
+        paidAt: movement.date,
+        notes: `Bank statement: ${movement.description}`,
+        allocations,
+      }, recordedById, tx);
+
+      if (allocations && payment.unallocated.gt(ZERO)) {
+        payment = await this.paymentService.allocateRemaining(payment.id, tx);
+      }
+
+      const confirmed = await tx.bankMovement.update({
+        where: { id: movement.id },
+        data: {
+          status: BankMovementStatus.CONFIRMED,
+          billId,
+          unitId,
+          paymentId: payment.id,
+        },
+      });
+
+      return { movement: confirmed, payment };
+    });
+  }
+
+  async ignoreMovement(movementId: string) {
+    const movement = await this.prisma.bankMovement.findUnique({
+      where: { id: movementId },
+    });
+
+    if (!movement) {
+      throw new Error('Bank movement not found');
+    }
+
+    if (movement.status === BankMovementStatus.CONFIRMED) {
+      throw new Error('Bank movement is already recorded as a payment; delete the payment first');
+    }
+
+    return this.prisma.bankMovement.update({
+      where: { id: movement.id },
+      data: { status: BankMovementStatus.IGNORED },
+    });
+  }
+
+  async getImport(importId: string) {
+    return this.prisma.bankStatementImport.findUnique({
+      where: { id: importId },
+      include: {
+        importedBy: { select: { id: true, name: true } },
+        movements: {
+          include: {
+            unit: {
+              select: { id: true, name: true, block: { select: { name: true } } },
+            },
+            bill: {
+              select: { id: true, totalCost: true, totalDue: true, dueDate: true, status: true },
+            },
+          },
+          orderBy: { date: 'asc' },
+        },
+      },
+    });
+  }
+
+  private scoreBill(
+    bill: CandidateBill,
+    amount: Money,
+    date: Date,
+    tokens: Set<string>,
+    dateWindowDays: number
+  ): MatchReason[] {
+    const reasons: MatchReason[] = [];
+
+    if (amount.eq(bill.outstanding)) {
+      reasons.push({ criterion: 'AMOUNT', detail: `Equals the ${bill.outstanding.toFixed(2)} outstanding` });
+    } else if (amount.eq(bill.totalDue)) {
+      reasons.push({ criterion: 'AMOUNT', detail: `Equals the ${bill.totalDue.toFixed(2)} total due` });
+    }
+
+    if (tokens.has(bill.id.toUpperCase())) {
+      reasons.push({ criterion: 'REFERENCE', detail: 'Mentions the bill' });
+    }
+
+    const unitCode = bill.unitCodes.find(code => tokens.has(code));
+    if (unitCode) {
+      reasons.push({ criterion: 'UNIT_CODE', detail: `Mentions unit ${unitCode}` });
+    }
+
+    const windowEnd = (bill.dueDate ?? bill.createdAt).getTime() + dateWindowDays * DAY_MS;
+    if (date.getTime() >= bill.createdAt.getTime() - DAY_MS && date.getTime() <= windowEnd) {
+      reasons.push({ criterion: 'DATE_WINDOW', detail: 'Between the bill issue and its due date window' });
+    }
+
+    return reasons;
+  }
+}
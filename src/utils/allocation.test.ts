@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OpenBalance, planAllocations, planCreditTransfers } from './allocation';
+import { toMoney } from './money';
+
+const balances = (values: [string, string][]): OpenBalance[] =>
+  values.map(([billId, outstanding]) => ({ billId, outstanding: toMoney(outstanding) }));
+
+const plain = (items: { amount: { toFixed: (decimals: number) => string } }[]) =>
+  items.map(item => ({ ...item, amount: item.amount.toFixed(2) }));
+
+describe('planCreditTransfers', () => {
+  it('moves credit onto the bills that still owe, in order', () => {
+    const transfers = planCreditTransfers(balances([['august', '-30.00'], ['september', '20.00'], ['october', '50.00']]));
+
+    assert.deepEqual(plain(transfers), [
+      { fromBillId: 'august', toBillId: 'september', amount: '20.00' },
+      { fromBillId: 'august', toBillId: 'october', amount: '10.00' },
+    ]);
+  });
+
+  it('leaves credit that finds nothing to pay on its bill', () => {
+    assert.deepEqual(planCreditTransfers(balances([['august', '-30.00'], ['september', '0.00']])), []);
+  });
+});
+
+describe('planAllocations', () => {
+  it('pays the bills that still owe in order and skips the settled ones', () => {
+    const allocations = planAllocations(toMoney('70.00'), balances([['july', '0.00'], ['august', '40.00'], ['september', '50.00']]));
+
+    assert.deepEqual(plain(allocations), [
+      { billId: 'august', amount: '40.00' },
+      { billId: 'september', amount: '30.00' },
+    ]);
+  });
+
+  it('settles the new bill when its total due is paid after a credit note on a paid bill', () => {
+    // August was paid, then got a 20.00 credit note; September's total due is 100.00 less that credit
+    const bills = balances([['august', '-20.00'], ['september', '100.00']]);
+    const totalDue = toMoney('80.00');
+
+    const transfers = planCreditTransfers(bills);
+    const afterCredit = bills.map(bill => ({
+      billId: bill.billId,
+      outstanding: transfers.reduce(
+        (outstanding, transfer) => transfer.toBillId === bill.billId
+          ? outstanding.minus(transfer.amount)
+          : transfer.fromBillId === bill.billId ? outstanding.plus(transfer.amount) : outstanding,
+        bill.outstanding
+      ),
+    }));
+    const allocations = planAllocations(totalDue, afterCredit);
+
+    assert.deepEqual(plain(allocations), [{ billId: 'september', amount: '80.00' }]);
+    assert.deepEqual(afterCredit.map(bill => bill.outstanding.minus(
+      allocations.find(allocation => allocation.billId === bill.billId)?.amount ?? 0
+    ).toFixed(2)), ['0.00', '0.00']);
+  });
+});
@@ -0,0 +1,66 @@
+import { Prisma } from '@prisma/client';
+import { Money, ZERO } from './money';
+
+export interface OpenBalance {
+  billId: string;
+  outstanding: Money; // Negative when the bill is in the unit's favor
+}
+
+export interface CreditTransfer {
+  fromBillId: string;
+  toBillId: string;
+  amount: Money;
+}
+
+/**
+ * Moves the credit left on bills, e.g. a credit note issued after the bill was
+ * paid, onto the bills that still owe, in the given order. Credit that finds
+ * nothing to pay stays on its bill.
+ */
+export const planCreditTransfers = (bills: OpenBalance[]): CreditTransfer[] => {
+  const credits = bills
+    .filter(bill => bill.outstanding.lt(ZERO))
+    .map(bill => ({ billId: bill.billId, available: bill.outstanding.negated() }));
+  const transfers: CreditTransfer[] = [];
+
+  for (const bill of bills) {
+    let owed = bill.outstanding;
+
+    for (const credit of credits) {
+      if (owed.lte(ZERO)) {
+        break;
+      }
+      if (credit.available.lte(ZERO)) {
+        continue;
+      }
+
+      const amount = Prisma.Decimal.min(owed, credit.available);
+      transfers.push({ fromBillId: credit.billId, toBillId: bill.billId, amount });
+      credit.available = credit.available.minus(amount);
+      owed = owed.minus(amount);
+    }
+  }
+
+  return transfers;
+};
+
+// Spreads an amount over the bills that still owe, in the given order
+export const planAllocations = (amount: Money, bills: OpenBalance[]): { billId: string; amount: Money }[] => {
+  const allocations: { billId: string; amount: Money }[] = [];
+  let remaining = amount;
+
+  for (const bill of bills) {
+    if (remaining.lte(ZERO)) {
+      break;
+    }
+    if (bill.outstanding.lte(ZERO)) {
+      continue;
+    }
+
+    const allocated = Prisma.Decimal.min(remaining, bill.outstanding);
+    allocations.push({ billId: bill.billId, amount: allocated });
+    remaining = remaining.minus(allocated);
+  }
+
+  return allocations;
+};
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BankName } from '@prisma/client';
+import { isSameAccount, parseBankAmount, parseBankDate, parseBankStatement, splitCsvLine } from './bankStatements';
+
+const amount = (value: string) => parseBankAmount(value)?.toFixed(2) ?? null;
+
+describe('parseBankAmount', () => {
+  it('reads dot and comma decimal separators', () => {
+    assert.equal(amount('1,250.50'), '1250.50');
+    assert.equal(amount('1.250,50'), '1250.50');
+    assert.equal(amount('250,5'), '250.50');
+    assert.equal(amount('1.250'), '1250.00');
+  });
+
+  it('reads negative amounts with a sign or in parentheses', () => {
+    assert.equal(amount('(80.00)'), '-80.00');
+    assert.equal(amount('-80.00'), '-80.00');
+    assert.equal(amount('S/ -80.00'), '-80.00');
+  });
+
+  it('ignores currency symbols and spaces', () => {
+    assert.equal(amount('S/. 1 250.00'), '1250.00');
+    assert.equal(amount('US$ 99.90'), '99.90');
+  });
+
+  it('returns null for blanks and text', () => {
+    assert.equal(amount(''), null);
+    assert.equal(amount('-'), null);
+    assert.equal(amount('abc'), null);
+  });
+});
+
+describe('parseBankDate', () => {
+  it('reads day-first and ISO dates', () => {
+    assert.equal(parseBankDate('05/09/2026').toISOString(), '2026-09-05T00:00:00.000Z');
+    assert.equal(parseBankDate('05-09-26').toISOString(), '2026-09-05T00:00:00.000Z');
+    assert.equal(parseBankDate('2026-09-05').toISOString(), '2026-09-05T00:00:00.000Z');
+  });
+
+  it('rejects impossible dates and text', () => {
+    assert.equal(parseBankDate('31/02/2026'), null);
+    assert.equal(parseBankDate('Total'), null);
+  });
+});
+
+describe('splitCsvLine', () => {
+  it('keeps delimiters and escaped quotes inside quoted fields', () => {
+    assert.deepEqual(splitCsvLine('05/09/2026,"Pago ""A-101""","1,250.00"', ','), ['05/09/2026', 'Pago "A-101"', '1,250.00']);
+  });
+});
+
+describe('isSameAccount', () => {
+  it('matches an account with its CCI regardless of formatting', () => {
+    assert.ok(isSameAccount('193-1234567-0-12', '002-193-001931234567012-15'));
+    assert.ok(isSameAccount('193-1234567-0-12', '19312345670-12'));
+    assert.ok(!isSameAccount('193-1234567-0-12', '193-7654321-0-12'));
+    assert.ok(!isSameAccount('', '193'));
+  });
+});
+
+describe('parseBankStatement', () => {
+  it('reads a BCP export with the account above the header', () => {
+    const csv = [
+      '\uFEFFCuenta: 193-1234567-0-12',
+      '',
+      'Fecha;Descripción operación;Monto;Operación - Número',
+      '05/09/2026;ABONO TRANSF A-101;1.250,50;000123',
+      '06/09/2026;COMISION MANTENIMIENTO;(8,00);',
+      'Total;;1.242,50;',
+    ].join('\r\n');
+
+    const statement = parseBankStatement(csv);
+
+    assert.equal(statement.bank, BankName.BCP);
+    assert.equal(statement.accountNumber, '193-1234567-0-12');
+    assert.deepEqual(
+      statement.rows.map(row => [row.line, row.description, row.reference, row.amount.toFixed(2)]),
+      [[4, 'ABONO TRANSF A-101', '000123', '1250.50'], [5, 'COMISION MANTENIMIENTO', null, '-8.00']]
+    );
+    assert.deepEqual(statement.skippedLines, [{ line: 6, reason: 'No valid date' }]);
+  });
+
+  it('reads an Interbank export with separate deposit and charge columns', () => {
+    const csv = [
+      'Fecha de operación,Descripción,Nro. de operación,Cargo,Abono',
+      '05/09/2026,DEPOSITO B-202,778899,,"350.00"',
+      '06/09/2026,ITF,778900,"0.02",',
+      '07/09/2026,SIN MONTO,778901,,',
+    ].join('\n');
+
+    const statement = parseBankStatement(csv);
+
+    assert.equal(statement.bank, BankName.INTERBANK);
+    assert.deepEqual(statement.rows.map(row => row.amount.toFixed(2)), ['350.00', '-0.02']);
+    assert.deepEqual(statement.skippedLines, [{ line: 4, reason: 'No valid amount' }]);
+  });
+
+  it('rejects files without the columns of the given bank', () => {
+    assert.throws(
+      () => parseBankStatement('Fecha;Descripción operación;Monto\n05/09/2026;X;10.00', BankName.INTERBANK),
+      /does not have the columns of a INTERBANK statement/
+    );
+    assert.throws(() => parseBankStatement('a,b,c\n1,2,3'), /Unrecognized bank statement layout/);
+  });
+});
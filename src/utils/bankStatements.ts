@@ -0,0 +1,276 @@
+import { BankName } from '@prisma/client';
+import { Money, roundMoney } from './money';
+
+export interface BankStatementRow {
+  line: number; // Line of the file, for error messages
+  date: Date;
+  description: string;
+  reference: string | null;
+  amount: Money; // Positive for deposits, negative for charges
+  account: string | null; // Only when the file lists several accounts
+}
+
+export interface ParsedBankStatement {
+  bank: BankName;
+  accountNumber: string | null; // From the file header, if present
+  rows: BankStatementRow[];
+  skippedLines: { line: number; reason: string }[];
+}
+
+interface BankLayout {
+  bank: BankName;
+  date: string[];
+  description: string[];
+  reference: string[];
+  amount?: string[]; // Signed amount in a single column
+  credit?: string[]; // Or deposits and charges in separate columns
+  debit?: string[];
+  account?: string[];
+}
+
+// Column names as exported by online banking, normalized (lowercase, no accents)
+const LAYOUTS: BankLayout[] = [
+  {
+    bank: BankName.BCP,
+    date: ['fecha', 'fecha operacion'],
+    description: ['descripcion operacion', 'descripcion'],
+    reference: ['operacion - numero', 'nro. operacion', 'numero de operacion', 'referencia2'],
+    amount: ['monto', 'importe'],
+    account: ['cuenta', 'nro. cuenta'],
+  },
+  {
+    bank: BankName.INTERBANK,
+    date: ['fecha de operacion', 'fecha operacion', 'fecha'],
+    description: ['descripcion', 'movimiento', 'detalle'],
+    reference: ['nro. de operacion', 'numero de operacion', 'nro. operacion', 'referencia'],
+    credit: ['abono', 'abonos'],
+    debit: ['cargo', 'cargos'],
+    account: ['cuenta', 'nro. de cuenta'],
+  },
+];
+
+const MAX_HEADER_SEARCH_LINES = 20;
+
+const normalize = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Digits only, so "193-1234567-0-12" and "19312345670 12" compare equal
+export const normalizeAccountNumber = (value: string): string => value.replace(/\D/g, '');
+
+// An account number matches its own CCI (interbank code), which contains it
+export const isSameAccount = (a: string, b: string): boolean => {
+  const left = normalizeAccountNumber(a);
+  const right = normalizeAccountNumber(b);
+  return left.length > 0 && right.length > 0 && (left.includes(right) || right.includes(left));
+};
+
+const detectDelimiter = (line: string): string => {
+  const counts = [';', ',', '\t'].map(delimiter => ({
+    delimiter,
+    count: line.split(delimiter).length,
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+// Splits a CSV line honouring quoted fields ("1,250.00") and escaped quotes
+export const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+};
+
+// dd/mm/yyyy (as banks export them), dd-mm-yyyy or ISO yyyy-mm-dd
+export const parseBankDate = (value: string): Date | null => {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    const date = new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[1])));
+    return date.getUTCDate() === Number(match[1]) ? date : null;
+  }
+
+  match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) {
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    return date.getUTCDate() === Number(match[3]) ? date : null;
+  }
+
+  return null;
+};
+
+/**
+ * Parses amounts like "1,250.50", "1.250,50", "S/ -80.00" or "(80.00)". The last
+ * separator followed by one or two digits is taken as the decimal separator.
+ */
+export const parseBankAmount = (value: string): Money | null => {
+  let text = value.replace(/s\/\.?|us\$|\$|pen|usd/gi, '').replace(/\s/g, '');
+  if (text === '' || text === '-') {
+    return null;
+  }
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  const decimalMatch = text.match(/[.,](\d{1,2})$/);
+  const integerPart = decimalMatch ? text.slice(0, -decimalMatch[0].length) : text;
+  const digits = integerPart.replace(/[.,]/g, '');
+
+  if (!/^\d+$/.test(digits)) {
+    return null;
+  }
+
+  const amount = roundMoney(decimalMatch ? `${digits}.${decimalMatch[1]}` : digits);
+  return negative ? amount.negated() : amount;
+};
+
+const findColumn = (headers: string[], names?: string[]): number => {
+  if (!names) {
+    return -1;
+  }
+  for (const name of names) {
+    const index = headers.indexOf(name);
+    if (index !== -1) {
+      return index;
+    }
+  }
+  return -1;
+};
+
+// A layout fits when its date, description and amount columns are all present
+const matchLayout = (headers: string[], layout: BankLayout): boolean =>
+  findColumn(headers, layout.date) !== -1 &&
+  findColumn(headers, layout.description) !== -1 &&
+  (findColumn(headers, layout.amount) !== -1 ||
+    (findColumn(headers, layout.credit) !== -1 && findColumn(headers, layout.debit) !== -1));
+
+/**
+ * Reads a BCP or Interbank movements CSV. The header row is searched among the
+ * first lines, after the account details banks put on top; the bank is detected
+ * from its columns unless given.
+ */
+export const parseBankStatement = (csv: string, bank?: BankName): ParsedBankStatement => {
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  let layout: BankLayout | undefined;
+  let headerIndex = -1;
+  let delimiter = ',';
+  let headers: string[] = [];
+
+  for (let i = 0; i < Math.min(lines.length, MAX_HEADER_SEARCH_LINES); i++) {
+    delimiter = detectDelimiter(lines[i]);
+    headers = splitCsvLine(lines[i], delimiter).map(normalize);
+    layout = LAYOUTS.filter(candidate => !bank || candidate.bank === bank)
+      .find(candidate => matchLayout(headers, candidate));
+
+    if (layout) {
+      headerIndex = i;
+      break;
+    }
+  }
+
+  if (!layout) {
+    throw new Error(bank
+      ? `The file does not have the columns of a ${bank} statement`
+      : 'Unrecognized bank statement layout; expected a BCP or Interbank CSV export');
+  }
+
+  // Account number from the lines above the header, e.g. "Cuenta: 193-1234567-0-12"
+  const accountLine = lines.slice(0, headerIndex).find(line => /\d{3}[\d-]{5,}\d/.test(line));
+  const accountNumber = accountLine?.match(/\d{3}[\d-]{5,}\d/)[0] ?? null;
+
+  const columns = {
+    date: findColumn(headers, layout.date),
+    description: findColumn(headers, layout.description),
+    reference: findColumn(headers, layout.reference),
+    amount: findColumn(headers, layout.amount),
+    credit: findColumn(headers, layout.credit),
+    debit: findColumn(headers, layout.debit),
+    account: findColumn(headers, layout.account),
+  };
+
+  const rows: BankStatementRow[] = [];
+  const skippedLines: { line: number; reason: string }[] = [];
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue;
+    }
+
+    const fields = splitCsvLine(lines[i], delimiter);
+    const line = i + 1;
+    const date = parseBankDate(fields[columns.date] ?? '');
+
+    // Totals and footers have no date
+    if (!date) {
+      skippedLines.push({ line, reason: 'No valid date' });
+      continue;
+    }
+
+    let amount: Money | null;
+    if (columns.amount !== -1) {
+      amount = parseBankAmount(fields[columns.amount] ?? '');
+    } else {
+      const credit = parseBankAmount(fields[columns.credit] ?? '');
+      const debit = parseBankAmount(fields[columns.debit] ?? '');
+      amount = credit && !credit.isZero() ? credit.abs() : debit ? debit.abs().negated() : null;
+    }
+
+    if (!amount) {
+      skippedLines.push({ line, reason: 'No valid amount' });
+      continue;
+    }
+
+    rows.push({
+      line,
+      date,
+      description: fields[columns.description] ?? '',
+      reference: columns.reference !== -1 ? fields[columns.reference] || null : null,
+      amount,
+      account: columns.account !== -1 ? fields[columns.account] || null : null,
+    });
+  }
+
+  return {
+    bank: layout.bank,
+    accountNumber,
+    rows,
+    skippedLines,
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateMeterConsumption, getMeterCapacity } from './consumption';
+
+describe('getMeterCapacity', () => {
+  it('is the first value the digits cannot show', () => {
+    assert.equal(getMeterCapacity(4), 10000);
+  });
+
+  it('is unknown without digits', () => {
+    assert.equal(getMeterCapacity(null), null);
+    assert.equal(getMeterCapacity(undefined), null);
+  });
+});
+
+describe('calculateMeterConsumption', () => {
+  it('subtracts the previous reading', () => {
+    assert.deepEqual(calculateMeterConsumption(120, 135, 4), { consumption: 15 });
+    assert.deepEqual(calculateMeterConsumption(120, 120, 4), { consumption: 0 });
+  });
+
+  it('wraps past the last value of a meter near its limit', () => {
+    assert.deepEqual(calculateMeterConsumption(9990, 15, 4), { consumption: 25, event: 'ROLLOVER', capacity: 10000 });
+  });
+
+  it('treats a large jump back as a replaced meter', () => {
+    assert.deepEqual(calculateMeterConsumption(4000, 12, 4), { consumption: 12, event: 'REPLACEMENT' });
+  });
+
+  it('treats a reading above the capacity as a replaced meter', () => {
+    assert.deepEqual(calculateMeterConsumption(12000, 30, 4), { consumption: 30, event: 'REPLACEMENT' });
+  });
+
+  it('cannot detect a rollover without the number of digits', () => {
+    assert.deepEqual(calculateMeterConsumption(9990, 15, null), { consumption: 15, event: 'REPLACEMENT' });
+    assert.deepEqual(calculateMeterConsumption(9990, 15), { consumption: 15, event: 'REPLACEMENT' });
+  });
+});
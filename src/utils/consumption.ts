@@ -0,0 +1,29 @@
+export type ConsumptionEvent = 'ROLLOVER' | 'REPLACEMENT';
+
+// A meter with N digits rolls over to zero after reaching 10^N - 1 (e.g. 9999)
+export const getMeterCapacity = (maxDigits?: number | null): number | null => {
+  return maxDigits ? Math.pow(10, maxDigits) : null;
+};
+
+export const calculateMeterConsumption = (
+  previousValue: number,
+  currentValue: number,
+  maxDigits?: number | null
+): { consumption: number; event?: ConsumptionEvent; capacity?: number } => {
+  if (currentValue >= previousValue) {
+    return { consumption: currentValue - previousValue };
+  }
+
+  const capacity = getMeterCapacity(maxDigits);
+
+  // A rollover is only plausible when the meter was close to its limit; a large
+  // jump back points to a meter that was replaced and restarted from zero
+  if (capacity && previousValue < capacity) {
+    const rolloverConsumption = capacity - previousValue + currentValue;
+    if (rolloverConsumption <= capacity / 2) {
+      return { consumption: rolloverConsumption, event: 'ROLLOVER', capacity };
+    }
+  }
+
+  return { consumption: currentValue, event: 'REPLACEMENT' };
+};
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommonAreaDistribution } from '@prisma/client';
+import { DistributionShare, distributeCommonArea } from './distribution';
+import { toMoney } from './money';
+
+const amounts = (result: ReturnType<typeof distributeCommonArea>) =>
+  Object.fromEntries(Array.from(result.amounts, ([unitId, amount]) => [unitId, amount.toFixed(2)]));
+
+describe('distributeCommonArea', () => {
+  it('splits by aliquot', () => {
+    const shares: DistributionShare[] = [
+      { unitId: 'a101', consumption: 10, aliquot: 0.6 },
+      { unitId: 'a102', consumption: 10, aliquot: 0.4 },
+    ];
+
+    const result = distributeCommonArea(toMoney('100.00'), shares, CommonAreaDistribution.ALIQUOT);
+
+    assert.deepEqual(amounts(result), { a101: '60.00', a102: '40.00' });
+    assert.deepEqual(result.missingUnitIds, []);
+  });
+
+  it('lists units missing the data the strategy weighs by', () => {
+    const shares: DistributionShare[] = [
+      { unitId: 'a101', consumption: 10, occupants: 3 },
+      { unitId: 'a102', consumption: 10, occupants: null },
+    ];
+
+    const result = distributeCommonArea(toMoney('90.00'), shares, CommonAreaDistribution.OCCUPANTS);
+
+    assert.deepEqual(amounts(result), { a101: '90.00', a102: '0.00' });
+    assert.deepEqual(result.missingUnitIds, ['a102']);
+  });
+
+  it('splits equally when no unit has the data', () => {
+    const shares: DistributionShare[] = [
+      { unitId: 'a101', consumption: 10 },
+      { unitId: 'a102', consumption: 30 },
+    ];
+
+    const result = distributeCommonArea(toMoney('50.00'), shares, CommonAreaDistribution.ALIQUOT);
+
+    assert.equal(result.strategy, CommonAreaDistribution.EQUAL);
+    assert.deepEqual(amounts(result), { a101: '25.00', a102: '25.00' });
+    assert.deepEqual(result.missingUnitIds, []);
+  });
+
+  it('splits by consumption', () => {
+    const shares: DistributionShare[] = [
+      { unitId: 'a101', consumption: 10 },
+      { unitId: 'a102', consumption: 30 },
+    ];
+
+    assert.deepEqual(
+      amounts(distributeCommonArea(toMoney('40.00'), shares, CommonAreaDistribution.CONSUMPTION)),
+      { a101: '10.00', a102: '30.00' }
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { CommonAreaDistribution } from '@prisma/client';
+import { Money } from './money';
+
+export interface DistributionShare {
+  unitId: string;
+  consumption: number;
+  aliquot?: number | null;
+  occupants?: number | null;
+}
+
+const getWeight = (share: DistributionShare, strategy: CommonAreaDistribution): number => {
+  switch (strategy) {
+    case CommonAreaDistribution.CONSUMPTION:
+      return Math.max(0, share.consumption);
+    case CommonAreaDistribution.ALIQUOT:
+      return Math.max(0, share.aliquot || 0);
+    case CommonAreaDistribution.OCCUPANTS:
+      return Math.max(0, share.occupants || 0);
+    default:
+      return 1;
+  }
+};
+
+// Units without the aliquot or occupant count the strategy weighs by
+const getMissingData = (shares: DistributionShare[], strategy: CommonAreaDistribution): string[] => {
+  switch (strategy) {
+    case CommonAreaDistribution.ALIQUOT:
+      return shares.filter(share => share.aliquot == null).map(share => share.unitId);
+    case CommonAreaDistribution.OCCUPANTS:
+      return shares.filter(share => share.occupants == null).map(share => share.unitId);
+    default:
+      return [];
+  }
+};
+
+/**
+ * Splits a common amount between units by the strategy's weights. Units missing
+ * the data the strategy needs are listed in `missingUnitIds`, since they get no
+ * share; with no data at all the amount is split equally instead.
+ */
+export const distributeCommonArea = (
+  total: Money,
+  shares: DistributionShare[],
+  strategy: CommonAreaDistribution
+): { amounts: Map<string, Money>; strategy: CommonAreaDistribution; missingUnitIds: string[] } => {
+  const amounts = new Map<string, Money>();
+
+  if (shares.length === 0) {
+    return { amounts, strategy, missingUnitIds: [] };
+  }
+
+  const weights = shares.map(share => getWeight(share, strategy));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  // Nothing to weigh by (e.g. no aliquots configured): fall back to an equal split
+  if (totalWeight <= 0) {
+    return distributeCommonArea(total, shares, CommonAreaDistribution.EQUAL);
+  }
+
+  shares.forEach((share, index) => {
+    amounts.set(share.unitId, total.times(weights[index]).dividedBy(totalWeight));
+  });
+
+  return { amounts, strategy, missingUnitIds: getMissingData(shares, strategy) };
+};
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { forecastBand, forecastNext } from './forecast';
+
+describe('forecastNext', () => {
+  it('returns null without history', () => {
+    assert.equal(forecastNext([]), null);
+  });
+
+  it('uses the mean of a short history', () => {
+    const forecast = forecastNext([8, 10, 12]);
+
+    assert.equal(forecast.expected, 10);
+    assert.equal(forecast.trend, 0);
+    assert.equal(forecast.basedOnPeriods, 3);
+    assert.equal(Math.round((forecast.upper - forecast.expected) * 1000), Math.round((forecast.expected - forecast.lower) * 1000));
+  });
+
+  it('extrapolates the trend of a longer history', () => {
+    const forecast = forecastNext([10, 12, 14, 16, 18]);
+
+    assert.equal(forecast.expected, 20);
+    assert.equal(forecast.trend, 2);
+  });
+
+  it('keeps a band of at least 10% when the history has no spread', () => {
+    assert.deepEqual(forecastNext([10, 10, 10]), { expected: 10, lower: 9, upper: 11, trend: 0, basedOnPeriods: 3 });
+    assert.deepEqual(forecastNext([10, 12, 14, 16, 18]), { expected: 20, lower: 18, upper: 22, trend: 2, basedOnPeriods: 5 });
+  });
+
+  it('widens the band with the confidence level', () => {
+    const values = [9, 14, 10, 13, 11, 15];
+    const narrow = forecastNext(values, 80);
+    const wide = forecastNext(values, 99);
+
+    assert.ok(wide.upper - wide.lower > narrow.upper - narrow.lower);
+    assert.equal(wide.expected, narrow.expected);
+  });
+
+  it('never goes below zero', () => {
+    const forecast = forecastNext([30, 20, 10, 2]);
+
+    assert.equal(forecast.expected, 0);
+    assert.equal(forecast.lower, 0);
+    assert.ok(forecast.upper > 0);
+  });
+});
+
+describe('forecastBand', () => {
+  it('uses the given z-score and minimum margin', () => {
+    assert.deepEqual(forecastBand([10, 10, 10], 3, 2), { expected: 10, lower: 0, upper: 30, trend: 0, basedOnPeriods: 3 });
+    assert.deepEqual(forecastBand([8, 10, 12], 1.96, 0.1), forecastNext([8, 10, 12], 95));
+  });
+});
@@ -0,0 +1,73 @@
+import { linearRegression, mean, standardDeviation } from './statistics';
+
+// Two-sided normal quantiles for the supported confidence levels (%)
+export const CONFIDENCE_Z_SCORES: Record<number, number> = {
+  80: 1.2816,
+  90: 1.6449,
+  95: 1.96,
+  99: 2.5758,
+};
+
+// Below this many points a trend is mostly noise, so the mean is used instead
+const MIN_TREND_POINTS = 4;
+
+// Narrowest band around the expected value, as a fraction of it; a flat history would otherwise give none
+const MIN_RELATIVE_MARGIN = 0.1;
+
+export interface Forecast {
+  expected: number;
+  lower: number;
+  upper: number;
+  trend: number; // Change per period; 0 when not enough history for a trend
+  basedOnPeriods: number;
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Projects the next value of a series ordered oldest first. With enough points
+ * it extrapolates the linear trend and uses the prediction interval of the fit,
+ * otherwise the mean with the spread of the values. Bands are at least 10% of
+ * the expected value either side and never go below zero.
+ */
+export const forecastNext = (values: number[], confidence: number = 95): Forecast | null =>
+  forecastBand(values, CONFIDENCE_Z_SCORES[confidence] ?? CONFIDENCE_Z_SCORES[95], MIN_RELATIVE_MARGIN);
+
+/**
+ * Same projection with the band set directly: z standard errors either side,
+ * and at least minRelativeMargin of the expected value.
+ */
+export const forecastBand = (values: number[], z: number, minRelativeMargin: number): Forecast | null => {
+  const n = values.length;
+  if (n === 0) return null;
+
+  let expected: number;
+  let margin: number;
+  let trend = 0;
+
+  if (n >= MIN_TREND_POINTS) {
+    const { slope, intercept } = linearRegression(values);
+    const residuals = values.map((value, x) => value - (intercept + slope * x));
+    const standardError = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 2));
+    const xMean = (n - 1) / 2;
+    const sxx = values.reduce((sum, _, x) => sum + Math.pow(x - xMean, 2), 0);
+
+    trend = slope;
+    expected = intercept + slope * n;
+    margin = z * standardError * Math.sqrt(1 + 1 / n + Math.pow(n - xMean, 2) / sxx);
+  } else {
+    expected = mean(values);
+    margin = z * standardDeviation(values) * Math.sqrt(1 + 1 / n);
+  }
+
+  expected = Math.max(0, expected);
+  margin = Math.max(margin, expected * minRelativeMargin);
+
+  return {
+    expected: round(expected),
+    lower: round(Math.max(0, expected - margin)),
+    upper: round(expected + margin),
+    trend: round(trend),
+    basedOnPeriods: n,
+  };
+};
@@ -0,0 +1,31 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+
+export type Money = Prisma.Decimal;
+export type MoneyValue = Prisma.Decimal.Value;
+
+export const ZERO = new Prisma.Decimal(0);
+
+export const toMoney = (value: MoneyValue): Money => new Prisma.Decimal(value);
+
+// Half-up rounding, to cents unless more decimals are requested (e.g. rates per m³)
+export const roundMoney = (value: MoneyValue, decimals: number = 2): Money =>
+  new Prisma.Decimal(value).toDecimalPlaces(decimals, Prisma.Decimal.ROUND_HALF_UP);
+
+export const sumMoney = (values: MoneyValue[]): Money =>
+  values.reduce<Money>((sum, value) => sum.plus(value), ZERO);
+
+export const toMinorUnits = (value: MoneyValue): number => roundMoney(value).times(100).toNumber();
+
+export const fromMinorUnits = (cents: number): Money => new Prisma.Decimal(cents).dividedBy(100);
+
+// Money is sent as a decimal string ("125.50"); plain numbers are still accepted for
+// older clients. Responses always emit Decimal values, which serialize as strings.
+export const decimalSchema = (decimals: number) => z
+  .union([
+    z.string().trim().regex(/^-?\d+(\.\d+)?$/, 'Invalid decimal amount'),
+    z.number().finite(),
+  ])
+  .transform(value => roundMoney(value, decimals));
+
+export const moneySchema = decimalSchema(2);
@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InterestPeriod } from '@prisma/client';
+import { LateFeeTerms, calculateAccruedPenalty, calculatePenalty, getDaysLate } from './penalties';
+
+const date = (value: string) => new Date(`${value}T00:00:00Z`);
+
+const terms: LateFeeTerms = {
+  flatFee: '5.00',
+  interestRate: '1.5',
+  interestPeriod: InterestPeriod.MONTHLY,
+  graceDays: 3,
+};
+
+const amounts = (penalty: ReturnType<typeof calculatePenalty>) => ({
+  daysLate: penalty.daysLate,
+  flatFee: penalty.flatFee.toFixed(2),
+  interest: penalty.interest.toFixed(2),
+  amount: penalty.amount.toFixed(2),
+});
+
+describe('getDaysLate', () => {
+  it('counts whole days after the grace period', () => {
+    assert.equal(getDaysLate(date('2026-09-10'), date('2026-09-20'), 3), 7);
+  });
+
+  it('ignores part of a day', () => {
+    assert.equal(getDaysLate(date('2026-09-10'), new Date('2026-09-20T23:59:00Z'), 0), 10);
+  });
+
+  it('is zero within the grace period and before the due date', () => {
+    assert.equal(getDaysLate(date('2026-09-10'), date('2026-09-13'), 3), 0);
+    assert.equal(getDaysLate(date('2026-09-10'), date('2026-09-01'), 0), 0);
+  });
+});
+
+describe('calculatePenalty', () => {
+  it('adds the flat fee to the monthly interest for the days late', () => {
+    assert.deepEqual(amounts(calculatePenalty('200.00', 15, terms)), {
+      daysLate: 15,
+      flatFee: '5.00',
+      interest: '1.50',
+      amount: '6.50',
+    });
+  });
+
+  it('charges daily interest per day late', () => {
+    const penalty = calculatePenalty('200.00', 10, { ...terms, interestRate: '0.1', interestPeriod: InterestPeriod.DAILY });
+
+    assert.equal(penalty.interest.toFixed(2), '2.00');
+    assert.equal(penalty.amount.toFixed(2), '7.00');
+  });
+
+  it('takes the cap from the flat fee first, then from the interest', () => {
+    assert.deepEqual(amounts(calculatePenalty('1000.00', 60, { ...terms, maxPenalty: '20.00' })), {
+      daysLate: 60,
+      flatFee: '5.00',
+      interest: '15.00',
+      amount: '20.00',
+    });
+    assert.deepEqual(amounts(calculatePenalty('1000.00', 60, { ...terms, maxPenalty: '3.00' })), {
+      daysLate: 60,
+      flatFee: '3.00',
+      interest: '0.00',
+      amount: '3.00',
+    });
+  });
+
+  it('charges nothing when not late', () => {
+    assert.equal(calculatePenalty('200.00', 0, terms).amount.toFixed(2), '0.00');
+  });
+
+  it('charges nothing when nothing is owed', () => {
+    assert.equal(calculatePenalty('0', 30, terms).amount.toFixed(2), '0.00');
+    assert.equal(calculatePenalty('-10.00', 30, terms).amount.toFixed(2), '0.00');
+  });
+});
+
+describe('calculateAccruedPenalty', () => {
+  const dueDate = date('2026-09-01');
+  const noGrace = { ...terms, graceDays: 0, interestRate: '0.1', interestPeriod: InterestPeriod.DAILY };
+
+  it('matches the simple penalty when nothing changed while late', () => {
+    const changes = [{ date: date('2026-08-20'), amount: '200.00' }];
+
+    assert.deepEqual(
+      amounts(calculateAccruedPenalty(changes, dueDate, date('2026-10-01'), terms)),
+      amounts(calculatePenalty('200.00', 27, terms))
+    );
+  });
+
+  it('keeps the interest accrued before a partial payment', () => {
+    // 90% paid on day 59: 59 days on 1000.00, then 1 day on 100.00
+    const changes = [
+      { date: date('2026-08-20'), amount: '1000.00' },
+      { date: date('2026-10-30'), amount: '-900.00' },
+    ];
+
+    assert.deepEqual(amounts(calculateAccruedPenalty(changes, dueDate, date('2026-10-31'), noGrace)), {
+      daysLate: 60,
+      flatFee: '5.00',
+      interest: '59.10',
+      amount: '64.10',
+    });
+  });
+
+  it('counts payments made before the bill was late', () => {
+    const changes = [
+      { date: date('2026-08-20'), amount: '1000.00' },
+      { date: date('2026-08-25'), amount: '-900.00' },
+    ];
+
+    assert.equal(calculateAccruedPenalty(changes, dueDate, date('2026-09-11'), noGrace).interest.toFixed(2), '1.00');
+  });
+
+  it('charges nothing when the bill was settled before it was late', () => {
+    const changes = [
+      { date: date('2026-08-20'), amount: '200.00' },
+      { date: date('2026-08-30'), amount: '-200.00' },
+    ];
+
+    assert.equal(calculateAccruedPenalty(changes, dueDate, date('2026-10-01'), noGrace).amount.toFixed(2), '0.00');
+  });
+});
@@ -0,0 +1,102 @@
+import { InterestPeriod, Prisma } from '@prisma/client';
+import { Money, MoneyValue, ZERO, roundMoney, toMoney } from './money';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30;
+
+export interface LateFeeTerms {
+  flatFee: MoneyValue;
+  interestRate: MoneyValue; // Percentage per interest period
+  interestPeriod: InterestPeriod;
+  graceDays: number;
+  maxPenalty?: MoneyValue | null;
+}
+
+export interface PrincipalChange {
+  date: Date;
+  amount: MoneyValue; // The bill and debit notes add; payments and credit notes subtract
+}
+
+export interface Penalty {
+  daysLate: number;
+  flatFee: Money;
+  interest: Money;
+  amount: Money;
+}
+
+// Whole days late after the grace period; zero while still within it
+export const getDaysLate = (dueDate: Date, asOf: Date, graceDays: number): number =>
+  Math.max(0, Math.floor((asOf.getTime() - dueDate.getTime()) / DAY_MS) - graceDays);
+
+// Simple interest for a number of days, unrounded so intervals can be added up
+const getInterest = (principal: MoneyValue, days: number, terms: LateFeeTerms): Money => {
+  const periods = terms.interestPeriod === InterestPeriod.DAILY ? days : days / DAYS_PER_MONTH;
+  return toMoney(principal).times(terms.interestRate).dividedBy(100).times(periods);
+};
+
+// The cap is taken from the flat fee first, then from the interest
+const capPenalty = (daysLate: number, flatFee: Money, interest: Money, terms: LateFeeTerms): Penalty => {
+  if (terms.maxPenalty != null) {
+    const cap = roundMoney(terms.maxPenalty);
+    flatFee = Prisma.Decimal.min(flatFee, cap);
+    interest = Prisma.Decimal.min(interest, cap.minus(flatFee));
+  }
+
+  return { daysLate, flatFee, interest, amount: flatFee.plus(interest) };
+};
+
+/**
+ * Flat fee plus simple interest on the principal for the days late, limited to
+ * the cap. The cap is taken from the flat fee first, then from the interest.
+ * Nothing is charged when nothing is owed.
+ */
+export const calculatePenalty = (principal: MoneyValue, daysLate: number, terms: LateFeeTerms): Penalty => {
+  if (daysLate <= 0 || toMoney(principal).lte(ZERO)) {
+    return { daysLate: 0, flatFee: ZERO, interest: ZERO, amount: ZERO };
+  }
+
+  return capPenalty(daysLate, roundMoney(terms.flatFee), roundMoney(getInterest(principal, daysLate, terms)), terms);
+};
+
+/**
+ * Penalty on a principal that changed while the bill was late: interest accrues
+ * day by day on what was owed on each day, so a later payment never reduces
+ * interest already accrued. The flat fee is charged once something was owed late.
+ */
+export const calculateAccruedPenalty = (
+  changes: PrincipalChange[],
+  dueDate: Date,
+  asOf: Date,
+  terms: LateFeeTerms
+): Penalty => {
+  const daysLate = getDaysLate(dueDate, asOf, terms.graceDays);
+  const dayOf = (date: Date) => Math.min(daysLate, getDaysLate(dueDate, date, terms.graceDays));
+  const changesByDay = changes
+    .filter(change => change.date <= asOf)
+    .map(change => ({ day: dayOf(change.date), amount: toMoney(change.amount) }));
+
+  // Days on which what was owed changed, each starting an interval that runs to the next
+  const days = [...new Set([0, ...changesByDay.map(change => change.day)])]
+    .filter(day => day < daysLate)
+    .sort((a, b) => a - b);
+
+  let interest = ZERO;
+  let owedLate = false;
+
+  days.forEach((day, index) => {
+    const principal = Prisma.Decimal.max(ZERO, changesByDay
+      .filter(change => change.day <= day)
+      .reduce((sum, change) => sum.plus(change.amount), ZERO));
+
+    if (principal.gt(ZERO)) {
+      owedLate = true;
+      interest = interest.plus(getInterest(principal, (days[index + 1] ?? daysLate) - day, terms));
+    }
+  });
+
+  if (!owedLate) {
+    return { daysLate: 0, flatFee: ZERO, interest: ZERO, amount: ZERO };
+  }
+
+  return capPenalty(daysLate, roundMoney(terms.flatFee), roundMoney(interest), terms);
+};
@@ -3,16 +3,18 @@
  * Maneja el cálculo de precios basado en unidades
  */
 
+import { Money, MoneyValue, roundMoney, toMoney } from './money';
+
 export interface PricingCalculation {
   unitsCount: number;
   billingUnits: number;
-  monthlyAmount: number;
-  annualAmount: number;
-  savings: number; // Descuento por pago anual
+  monthlyAmount: Money;
+  annualAmount: Money;
+  savings: Money; // Descuento por pago anual
 }
 
 export interface PricingConfig {
-  pricePerUnitPEN: number;
+  pricePerUnitPEN: MoneyValue;
   minimumUnits: number;
   isAnnualPrepaid: boolean;
   annualDiscountPercent?: number; // Descuento por pago anual (opcional)
@@ -29,15 +31,15 @@ export function calculatePricing(
   const billingUnits = Math.max(unitsCount, config.minimumUnits);
   
   // Cálculo mensual base
-  const monthlyAmount = billingUnits * config.pricePerUnitPEN;
+  const monthlyAmount = roundMoney(toMoney(config.pricePerUnitPEN).times(billingUnits));
   
   // Cálculo anual (12 meses)
-  let annualAmount = monthlyAmount * 12;
+  let annualAmount = monthlyAmount.times(12);
   
   // Aplicar descuento anual si está configurado
   const discountPercent = config.annualDiscountPercent || 0;
-  const savings = annualAmount * (discountPercent / 100);
-  annualAmount = annualAmount - savings;
+  const savings = roundMoney(annualAmount.times(discountPercent).dividedBy(100));
+  annualAmount = annualAmount.minus(savings);
 
   return {
     unitsCount,
@@ -87,12 +89,12 @@ export function calculateSubscriptionDates(startDate: Date = new Date()) {
 /**
  * Formatea el precio en soles peruanos
  */
-export function formatPricePEN(amount: number): string {
+export function formatPricePEN(amount: MoneyValue): string {
   return new Intl.NumberFormat('es-PE', {
     style: 'currency',
     currency: 'PEN',
     minimumFractionDigits: 2
-  }).format(amount);
+  }).format(toMoney(amount).toNumber());
 }
 
 /**
@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProrationMethod } from '@prisma/client';
+import { Occupancy, prorateBill } from './proration';
+import { toMoney } from './money';
+
+const date = (value: string) => new Date(`${value}T00:00:00Z`);
+const window = { start: date('2026-09-01'), end: date('2026-10-01') };
+const total = toMoney('300.00');
+
+const summary = (result: ReturnType<typeof prorateBill>) =>
+  result?.shares.map(share => [share.residentId, share.days, share.amount.toFixed(2)]);
+
+describe('prorateBill', () => {
+  it('does not split the bill of a single resident', () => {
+    const occupancies: Occupancy[] = [
+      { residentId: 'ana', residentName: 'Ana', isPrimary: true, startDate: date('2025-01-01') },
+    ];
+
+    assert.equal(prorateBill(total, occupancies, window, ProrationMethod.DAYS), null);
+  });
+
+  it('does not split when a second resident moves in', () => {
+    const occupancies: Occupancy[] = [
+      { residentId: 'ana', residentName: 'Ana', isPrimary: true, startDate: date('2025-01-01') },
+      { residentId: 'luis', residentName: 'Luis', startDate: date('2026-09-11') },
+    ];
+
+    assert.equal(prorateBill(total, occupancies, window, ProrationMethod.DAYS), null);
+  });
+
+  it('charges residents recorded after the period started from its start', () => {
+    const occupancies: Occupancy[] = [
+      { residentId: 'ana', residentName: 'Ana', isPrimary: true, startDate: date('2026-09-20') },
+    ];
+
+    assert.equal(prorateBill(total, occupancies, window, ProrationMethod.DAYS), null);
+  });
+
+  it('splits by days when the primary resident is replaced', () => {
+    const occupancies: Occupancy[] = [
+      { residentId: 'ana', residentName: 'Ana', isPrimary: true, startDate: date('2025-01-01'), endDate: date('2026-09-11') },
+      { residentId: 'luis', residentName: 'Luis', isPrimary: true, startDate: date('2026-09-11') },
+    ];
+
+    assert.deepEqual(summary(prorateBill(total, occupancies, window, ProrationMethod.DAYS)), [
+      ['ana', 10, '100.00'],
+      ['luis', 20, '200.00'],
+    ]);
+  });
+
+  it('passes the bill to the remaining resident when the primary one moves out', () => {
+    const occupancies: Occupancy[] = [
+      { residentId: 'ana', residentName: 'Ana', isPrimary: true, startDate: date('2025-01-01'), endDate: date('2026-09-21') },
+      { residentId: 'luis', residentName: 'Luis', isPrimary: true, startDate: date('2025-06-01') },
+    ];
+
+    assert.deepEqual(summary(prorateBill(total, occupancies, window, ProrationMethod.DAYS)), [
+      ['ana', 20, '200.00'],
+      ['luis', 10, '100.00'],
+    ]);
+  });
+
+  it('leaves the vacant part of the period without a resident', () => {
+    const occupancies: Occupancy[] = [
+      { residentId: 'ana', residentName: 'Ana', isPrimary: true, startDate: date('2025-01-01'), endDate: date('2026-09-07') },
+      { residentId: 'luis', residentName: 'Luis', isPrimary: true, startDate: date('2026-09-19') },
+    ];
+
+    assert.deepEqual(summary(prorateBill(total, occupancies, window, ProrationMethod.DAYS)), [
+      ['ana', 6, '60.00'],
+      [null, 12, '120.00'],
+      ['luis', 12, '120.00'],
+    ]);
+  });
+
+  it('splits by the move-out reading with the READING method', () => {
+    const occupancies: Occupancy[] = [
+      { residentId: 'ana', residentName: 'Ana', isPrimary: true, startDate: date('2025-01-01'), endDate: date('2026-09-11'), endReading: 130 },
+      { residentId: 'luis', residentName: 'Luis', isPrimary: true, startDate: date('2026-09-11') },
+    ];
+
+    const result = prorateBill(total, occupancies, window, ProrationMethod.READING, { previous: 100, current: 140 });
+
+    assert.equal(result.method, ProrationMethod.READING);
+    assert.deepEqual(result.shares.map(share => [share.consumption, share.amount.toFixed(2)]), [
+      [30, '225.00'],
+      [10, '75.00'],
+    ]);
+  });
+
+  it('falls back to days when a move reading is missing', () => {
+    const occupancies: Occupancy[] = [
+      { residentId: 'ana', residentName: 'Ana', isPrimary: true, startDate: date('2025-01-01'), endDate: date('2026-09-11') },
+      { residentId: 'luis', residentName: 'Luis', isPrimary: true, startDate: date('2026-09-11') },
+    ];
+
+    const result = prorateBill(total, occupancies, window, ProrationMethod.READING, { previous: 100, current: 140 });
+
+    assert.equal(result.method, ProrationMethod.DAYS);
+    assert.deepEqual(result.shares.map(share => share.amount.toFixed(2)), ['100.00', '200.00']);
+  });
+
+  it('rounds shares so they add up to the total', () => {
+    const occupancies: Occupancy[] = [
+      { residentId: 'ana', residentName: 'Ana', isPrimary: true, startDate: date('2025-01-01'), endDate: date('2026-09-11') },
+      { residentId: 'luis', residentName: 'Luis', isPrimary: true, startDate: date('2026-09-11') },
+    ];
+
+    const result = prorateBill(toMoney('100.00'), occupancies, window, ProrationMethod.DAYS);
+
+    assert.deepEqual(result.shares.map(share => share.amount.toFixed(2)), ['33.33', '66.67']);
+  });
+});
@@ -0,0 +1,172 @@
+import { ProrationMethod } from '@prisma/client';
+import { Money } from './money';
+import { allocateRounding } from './rounding';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface Occupancy {
+  residentId: string;
+  residentName: string;
+  isPrimary?: boolean; // Current primary resident, or primary when moving out
+  startDate: Date;
+  endDate?: Date | null;
+  startReading?: number | null;
+  endReading?: number | null;
+}
+
+export interface ProratedShare {
+  residentId: string | null; // null while the unit was vacant
+  residentName: string | null;
+  startDate: Date;
+  endDate: Date;
+  method: ProrationMethod;
+  days: number;
+  consumption?: number;
+  share: number;
+  amount: Money;
+}
+
+interface ResponsibleInterval {
+  start: number;
+  end: number;
+  occupant: Occupancy | null;
+}
+
+const isActiveAt = (occupancy: Occupancy, time: number): boolean =>
+  occupancy.startDate.getTime() <= time && (!occupancy.endDate || occupancy.endDate.getTime() > time);
+
+/**
+ * Resident responsible for the bill at a given time: the primary one. While a
+ * former primary was still living there, they come before the resident who took
+ * over when they left. Units without a primary fall back to the longest-standing
+ * resident.
+ */
+const getResponsibleAt = (occupancies: Occupancy[], time: number): Occupancy | null => {
+  const active = occupancies.filter(occupancy => isActiveAt(occupancy, time));
+  const primaries = active
+    .filter(occupancy => occupancy.isPrimary)
+    .sort((a, b) => (a.endDate?.getTime() ?? Infinity) - (b.endDate?.getTime() ?? Infinity));
+
+  return primaries[0] ??
+    active.sort((a, b) => a.startDate.getTime() - b.startDate.getTime())[0] ??
+    null;
+};
+
+/**
+ * Splits the window into consecutive intervals with the resident responsible in
+ * each. Responsibility only changes when the primary resident moves out or a new
+ * one replaces them; other residents moving in or out do not split the bill.
+ * Residents recorded after the window started are taken as responsible from its
+ * start, since they may have lived there before being registered.
+ */
+const getResponsibleIntervals = (occupancies: Occupancy[], windowStart: Date, windowEnd: Date): ResponsibleInterval[] => {
+  const boundaries = new Set<number>([windowStart.getTime(), windowEnd.getTime()]);
+
+  for (const occupancy of occupancies) {
+    for (const date of [occupancy.startDate, occupancy.endDate]) {
+      if (date && date > windowStart && date < windowEnd) {
+        boundaries.add(date.getTime());
+      }
+    }
+  }
+
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+  const intervals: ResponsibleInterval[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    const occupant = getResponsibleAt(occupancies, start);
+
+    const last = intervals[intervals.length - 1];
+    if (last && (last.occupant === occupant || (!last.occupant && intervals.length === 1))) {
+      last.end = end;
+      last.occupant = occupant;
+    } else {
+      intervals.push({ start, end, occupant });
+    }
+  }
+
+  return intervals;
+};
+
+// Reading at each change of responsible party, taken from the move-out or move-in records
+const getReadingConsumptions = (
+  intervals: ResponsibleInterval[],
+  readings: { previous: number; current: number },
+  occupancies: Occupancy[]
+): number[] | null => {
+  const values: number[] = [readings.previous];
+
+  for (const interval of intervals.slice(1)) {
+    const movedOut = occupancies.find(o => o.endDate?.getTime() === interval.start && o.endReading != null);
+    const movedIn = occupancies.find(o => o.startDate.getTime() === interval.start && o.startReading != null);
+    const reading = movedOut?.endReading ?? movedIn?.startReading;
+
+    if (reading == null) {
+      return null;
+    }
+
+    values.push(reading);
+  }
+
+  values.push(readings.current);
+
+  return intervals.map((_, index) => Math.max(0, values[index + 1] - values[index]));
+};
+
+/**
+ * Splits a unit's bill between the residents responsible for it during the window.
+ * READING uses the readings recorded at move-in/move-out and falls back to DAYS when
+ * one is missing. Returns null when a single party is responsible for the whole window.
+ */
+export const prorateBill = (
+  total: Money,
+  occupancies: Occupancy[],
+  window: { start: Date; end: Date },
+  method: ProrationMethod,
+  readings?: { previous: number; current: number }
+): { method: ProrationMethod; shares: ProratedShare[] } | null => {
+  if (window.end <= window.start) {
+    return null;
+  }
+
+  const intervals = getResponsibleIntervals(occupancies, window.start, window.end);
+  if (intervals.length < 2) {
+    return null;
+  }
+
+  const days = intervals.map(interval => (interval.end - interval.start) / DAY_MS);
+  let usedMethod: ProrationMethod = ProrationMethod.DAYS;
+  let weights = days;
+  let consumptions: number[] | null = null;
+
+  if (method === ProrationMethod.READING && readings) {
+    consumptions = getReadingConsumptions(intervals, readings, occupancies);
+    if (consumptions && consumptions.some(consumption => consumption > 0)) {
+      usedMethod = ProrationMethod.READING;
+      weights = consumptions;
+    }
+  }
+
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const { rounded } = allocateRounding(
+    weights.map(weight => total.times(weight).dividedBy(totalWeight)),
+    total
+  );
+
+  return {
+    method: usedMethod,
+    shares: intervals.map((interval, index) => ({
+      residentId: interval.occupant?.residentId ?? null,
+      residentName: interval.occupant?.residentName ?? null,
+      startDate: new Date(interval.start),
+      endDate: new Date(interval.end),
+      method: usedMethod,
+      days: Math.round(days[index] * 100) / 100,
+      consumption: usedMethod === ProrationMethod.READING ? consumptions[index] : undefined,
+      share: Math.round((weights[index] / totalWeight) * 10000) / 10000,
+      amount: rounded[index],
+    })),
+  };
+};
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { allocateRounding } from './rounding';
+import { sumMoney, toMoney } from './money';
+
+const money = (values: string[]) => values.map(toMoney);
+const strings = (values: { toFixed: (decimals: number) => string }[]) => values.map(value => value.toFixed(2));
+
+describe('allocateRounding', () => {
+  it('rounds to cents adding up exactly to the target', () => {
+    const { rounded } = allocateRounding(money(['33.333', '33.333', '33.334']), '100.00');
+
+    assert.deepEqual(strings(rounded), ['33.33', '33.33', '33.34']);
+    assert.equal(sumMoney(rounded).toFixed(2), '100.00');
+  });
+
+  it('gives the extra cents to the largest remainders', () => {
+    const { rounded } = allocateRounding(money(['10.004', '10.008', '10.006']), '30.02');
+
+    assert.deepEqual(strings(rounded), ['10.00', '10.01', '10.01']);
+  });
+
+  it('takes cents back from the smallest remainders when the floors exceed the target', () => {
+    const { rounded } = allocateRounding(money(['10.004', '10.008', '10.006']), '29.99');
+
+    assert.deepEqual(strings(rounded), ['9.99', '10.00', '10.00']);
+  });
+
+  it('breaks ties by position', () => {
+    const { rounded } = allocateRounding(money(['0.005', '0.005', '0.005']), '0.02');
+
+    assert.deepEqual(strings(rounded), ['0.01', '0.01', '0.00']);
+  });
+
+  it('reports what each amount was adjusted by', () => {
+    const { adjustments } = allocateRounding(money(['33.333', '33.333', '33.334']), '100.00');
+
+    assert.deepEqual(adjustments.map(value => value.toFixed(4)), ['-0.0030', '-0.0030', '0.0060']);
+  });
+
+  it('returns nothing for no amounts', () => {
+    assert.deepEqual(allocateRounding([], '0'), { rounded: [], adjustments: [] });
+  });
+});
@@ -0,0 +1,41 @@
+import { Money, MoneyValue, fromMinorUnits, roundMoney, toMinorUnits } from './money';
+
+/**
+ * Largest remainder method: rounds every amount to cents so that the rounded
+ * amounts add up exactly to `target`. Ties are broken by position, so callers
+ * should pass amounts in a stable order.
+ */
+export const allocateRounding = (
+  amounts: Money[],
+  target: MoneyValue
+): { rounded: Money[]; adjustments: Money[] } => {
+  const exactCents = amounts.map(amount => amount.times(100));
+  const floors = exactCents.map(cents => cents.floor().toNumber());
+  const remainders = exactCents.map((cents, index) => cents.minus(floors[index]));
+
+  const cents = [...floors];
+  let residual = toMinorUnits(target) - floors.reduce((sum, value) => sum + value, 0);
+
+  if (amounts.length > 0 && residual !== 0) {
+    const step = residual > 0 ? 1 : -1;
+    // Largest remainders receive the extra cents; smallest give them back
+    const order = amounts
+      .map((_, index) => index)
+      .sort((a, b) => step > 0
+        ? remainders[b].comparedTo(remainders[a]) || a - b
+        : remainders[a].comparedTo(remainders[b]) || a - b
+      );
+
+    for (let i = 0; residual !== 0; i = (i + 1) % order.length) {
+      cents[order[i]] += step;
+      residual -= step;
+    }
+  }
+
+  const rounded = cents.map(fromMinorUnits);
+
+  return {
+    rounded,
+    adjustments: rounded.map((value, index) => roundMoney(value.minus(amounts[index]), 4)),
+  };
+};
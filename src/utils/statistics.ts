@@ -0,0 +1,43 @@
+export const mean = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+// Sample standard deviation (n - 1), since histories are samples of a meter's usage
+export const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + Math.pow(value - average, 2), 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+// Null when the values don't vary, as any difference would be infinitely many deviations away
+export const zScore = (value: number, values: number[]): number | null => {
+  const deviation = standardDeviation(values);
+  if (deviation === 0) return null;
+  return (value - mean(values)) / deviation;
+};
+
+export const percentChange = (value: number, baseline: number): number | null => {
+  if (baseline === 0) return null;
+  return ((value - baseline) / baseline) * 100;
+};
+
+// Least squares line through (0, values[0]), (1, values[1]), ...
+export const linearRegression = (values: number[]): { slope: number; intercept: number } => {
+  const n = values.length;
+  if (n < 2) return { slope: 0, intercept: values[0] ?? 0 };
+
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let numerator = 0;
+  let denominator = 0;
+
+  values.forEach((value, x) => {
+    numerator += (x - xMean) * (value - yMean);
+    denominator += Math.pow(x - xMean, 2);
+  });
+
+  const slope = numerator / denominator;
+  return { slope, intercept: yMean - slope * xMean };
+};
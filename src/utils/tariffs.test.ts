@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyTariffTiers, parseTariffTiers, validateTariffTiers } from './tariffs';
+
+const tiers = [
+  { from: 0, to: 10, rate: 1.5 },
+  { from: 10, to: 20, rate: 2.5 },
+  { from: 20, to: null, rate: 4 },
+];
+
+describe('applyTariffTiers', () => {
+  it('prices consumption inside the first block', () => {
+    const { amount, breakdown } = applyTariffTiers(8, tiers);
+
+    assert.equal(amount.toFixed(2), '12.00');
+    assert.equal(breakdown.length, 1);
+  });
+
+  it('prices each block at its own rate', () => {
+    const { amount, breakdown } = applyTariffTiers(25, tiers);
+
+    assert.equal(amount.toFixed(2), '60.00');
+    assert.deepEqual(
+      breakdown.map(charge => [charge.from, charge.to, charge.volume, charge.amount.toFixed(2)]),
+      [[0, 10, 10, '15.00'], [10, 20, 10, '25.00'], [20, null, 5, '20.00']]
+    );
+  });
+
+  it('stops at a block boundary', () => {
+    const { amount, breakdown } = applyTariffTiers(10, tiers);
+
+    assert.equal(amount.toFixed(2), '15.00');
+    assert.equal(breakdown.length, 1);
+  });
+
+  it('charges nothing for no consumption', () => {
+    const { amount, breakdown } = applyTariffTiers(0, tiers);
+
+    assert.equal(amount.toFixed(2), '0.00');
+    assert.deepEqual(breakdown, []);
+  });
+
+  it('keeps fractional volumes unrounded until the total', () => {
+    const { amount } = applyTariffTiers(10.333, [{ from: 0, to: null, rate: 1.333 }]);
+
+    assert.equal(amount.toString(), '13.773889');
+  });
+});
+
+describe('validateTariffTiers', () => {
+  it('accepts contiguous blocks ending open', () => {
+    assert.deepEqual(validateTariffTiers(tiers), { isValid: true, errors: [] });
+  });
+
+  it('rejects a closed last block', () => {
+    const { errors } = validateTariffTiers([
+      { from: 0, to: 10, rate: 1 },
+      { from: 10, to: 20, rate: 2 },
+    ]);
+
+    assert.deepEqual(errors, ['Last tier must be open-ended; consumption above 20 m³ would not be billed']);
+  });
+
+  it('rejects gaps, a first block not starting at 0 and blocks after an open one', () => {
+    const { errors } = validateTariffTiers([
+      { from: 5, to: 10, rate: 1 },
+      { from: 12, to: null, rate: 2 },
+      { from: 20, to: null, rate: 3 },
+    ]);
+
+    assert.deepEqual(errors, [
+      'First tier must start at 0 m³',
+      'Tier 2 must start where tier 1 ends (10 m³)',
+      'Tier 2 is open-ended but is followed by another tier',
+    ]);
+  });
+});
+
+describe('parseTariffTiers', () => {
+  it('parses JSON tiers and sorts them by lower bound', () => {
+    const parsed = parseTariffTiers(JSON.stringify([tiers[2], tiers[0], tiers[1]]));
+
+    assert.deepEqual(parsed, tiers);
+  });
+
+  it('throws on invalid tiers', () => {
+    assert.throws(() => parseTariffTiers([{ from: 0, to: 10, rate: -1 }]), /Tier 1 rate must be non-negative/);
+    assert.throws(() => parseTariffTiers({}), /must be an array/);
+  });
+});
@@ -0,0 +1,107 @@
+import { Money, ZERO, roundMoney, toMoney } from './money';
+
+export interface TariffTier {
+  from: number; // Lower bound of the block in m³ (inclusive)
+  to?: number | null; // Upper bound of the block in m³ (exclusive), null for the last block
+  rate: number; // Cost per m³ inside the block
+}
+
+export interface TierCharge {
+  from: number;
+  to: number | null;
+  rate: number;
+  volume: number;
+  amount: Money;
+}
+
+export const validateTariffTiers = (tiers: TariffTier[]): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (tiers.length === 0) {
+    errors.push('At least one tariff tier is required');
+  }
+
+  tiers.forEach((tier, index) => {
+    if (tier.rate < 0) {
+      errors.push(`Tier ${index + 1} rate must be non-negative`);
+    }
+
+    if (tier.to !== undefined && tier.to !== null && tier.to <= tier.from) {
+      errors.push(`Tier ${index + 1} upper bound must be greater than its lower bound`);
+    }
+
+    if (index === 0 && tier.from !== 0) {
+      errors.push('First tier must start at 0 m³');
+    }
+
+    if (index > 0) {
+      const previous = tiers[index - 1];
+      if (previous.to === undefined || previous.to === null) {
+        errors.push(`Tier ${index} is open-ended but is followed by another tier`);
+      } else if (previous.to !== tier.from) {
+        errors.push(`Tier ${index + 1} must start where tier ${index} ends (${previous.to} m³)`);
+      }
+    }
+  });
+
+  // Consumption above a closed last tier would be billed at nothing
+  const last = tiers[tiers.length - 1];
+  if (last && last.to !== undefined && last.to !== null) {
+    errors.push(`Last tier must be open-ended; consumption above ${last.to} m³ would not be billed`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+export const parseTariffTiers = (value: unknown): TariffTier[] => {
+  const raw = typeof value === 'string' ? JSON.parse(value) : value;
+
+  if (!Array.isArray(raw)) {
+    throw new Error('Tariff tiers must be an array');
+  }
+
+  const tiers: TariffTier[] = raw
+    .map((tier: any) => ({
+      from: Number(tier.from),
+      to: tier.to === undefined || tier.to === null ? null : Number(tier.to),
+      rate: Number(tier.rate),
+    }))
+    .sort((a, b) => a.from - b.from);
+
+  const validation = validateTariffTiers(tiers);
+  if (!validation.isValid) {
+    throw new Error(`Invalid tariff tiers: ${validation.errors.join(', ')}`);
+  }
+
+  return tiers;
+};
+
+export const applyTariffTiers = (
+  consumption: number,
+  tiers: TariffTier[]
+): { amount: Money; breakdown: TierCharge[] } => {
+  const breakdown: TierCharge[] = [];
+  let amount = ZERO;
+
+  for (const tier of tiers) {
+    if (consumption <= tier.from) break;
+
+    const upper = tier.to ?? Infinity;
+    const volume = Math.min(consumption, upper) - tier.from;
+    const tierAmount = toMoney(volume).times(tier.rate);
+
+    breakdown.push({
+      from: tier.from,
+      to: tier.to ?? null,
+      rate: tier.rate,
+      volume,
+      amount: roundMoney(tierAmount),
+    });
+    amount = amount.plus(tierAmount);
+  }
+
+  return { amount, breakdown };
+};
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { capCredit, priceOverestimate } from './trueUp';
+import { toMoney } from './money';
+
+const tiers = [
+  { from: 0, to: 10, rate: 1.5 },
+  { from: 10, to: null, rate: 4 },
+];
+
+describe('priceOverestimate', () => {
+  it('prices the excess as the top of the consumption it was billed in', () => {
+    // 14 m³ billed, 6 m³ of them in excess: 4 m³ at 4.00 and 2 m³ at 1.50
+    assert.equal(priceOverestimate(14, 6, tiers).toFixed(2), '19.00');
+  });
+
+  it('never credits more than the whole billed consumption', () => {
+    assert.equal(priceOverestimate(5, 8, tiers).toFixed(2), '7.50');
+  });
+});
+
+describe('capCredit', () => {
+  it('applies a credit smaller than the bill in full', () => {
+    const { applied, uncredited } = capCredit(toMoney('50.00'), toMoney('19.00'));
+
+    assert.equal(applied.toFixed(2), '19.00');
+    assert.equal(uncredited.toFixed(2), '0.00');
+  });
+
+  it('stops a credit larger than the bill at zero and reports the rest', () => {
+    const { applied, uncredited } = capCredit(toMoney('12.00'), toMoney('19.00'));
+
+    assert.equal(applied.toFixed(2), '12.00');
+    assert.equal(uncredited.toFixed(2), '7.00');
+    assert.equal(toMoney('12.00').minus(applied).toFixed(2), '0.00');
+  });
+});
@@ -0,0 +1,19 @@
+import { Prisma } from '@prisma/client';
+import { Money, ZERO, roundMoney } from './money';
+import { TariffTier, applyTariffTiers } from './tariffs';
+
+/**
+ * What a volume billed in excess cost, priced as the top of the consumption it
+ * was billed in, so the unit gets back exactly what the excess added.
+ */
+export const priceOverestimate = (billedConsumption: number, volume: number, tiers: TariffTier[]): Money =>
+  roundMoney(
+    applyTariffTiers(billedConsumption, tiers).amount
+      .minus(applyTariffTiers(Math.max(0, billedConsumption - volume), tiers).amount)
+  );
+
+// A credit never takes a bill below zero; the rest is left for a credit note
+export const capCredit = (total: Money, credit: Money): { applied: Money; uncredited: Money } => {
+  const applied = Prisma.Decimal.max(ZERO, Prisma.Decimal.min(total, credit));
+  return { applied, uncredited: credit.minus(applied) };
+};